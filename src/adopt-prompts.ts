@@ -0,0 +1,58 @@
+import * as p from '@clack/prompts';
+import pc from 'picocolors';
+import type { AdoptResult } from './types.js';
+
+/**
+ * Shows the adopt intro.
+ */
+export function showAdoptIntro(): void {
+  console.log();
+  p.intro(pc.bgCyan(pc.black(' Velocity Adopt ')));
+}
+
+/**
+ * Shows the version and features inferred for the project.
+ */
+export function showAdoptSummary(result: AdoptResult): void {
+  const confidence = result.compared > 0
+    ? pc.dim(` (${result.matched} of ${result.compared} framework files match)`)
+    : pc.dim(' (set with --base)');
+
+  const components = result.features.components.replace(/;/g, '; ')
+    .replace(/(categories|individual):/g, '$1: ');
+
+  p.log.info(
+    `Closest version: ${pc.green(`v${result.version}`)}${confidence}\n` +
+    `i18n:            ${result.features.i18n ? pc.green('yes') : pc.dim('no')}\n` +
+    `Demo content:    ${result.features.demo ? pc.green('yes') : pc.dim('no')}\n` +
+    `Components:      ${pc.cyan(components)}`
+  );
+
+  if (result.compared > 0 && result.matched / result.compared < 0.5) {
+    p.log.warn(
+      pc.yellow(
+        'Less than half of the framework files match any release, so the version is a rough guess.\n' +
+        'Run `upgrade --dry-run` afterwards and review the changes carefully.'
+      )
+    );
+  }
+}
+
+/**
+ * Asks the user to confirm writing .velocity.json. Returns true to proceed.
+ */
+export async function confirmAdopt(yes: boolean): Promise<boolean> {
+  if (yes) return true;
+
+  const result = await p.confirm({
+    message: 'Write .velocity.json and a template snapshot with these settings?',
+    initialValue: true,
+  });
+
+  if (p.isCancel(result) || !result) {
+    p.cancel('Adopt cancelled.');
+    return false;
+  }
+
+  return true;
+}
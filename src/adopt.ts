@@ -0,0 +1,289 @@
+import { existsSync, readFileSync, rmSync } from 'node:fs';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import * as p from '@clack/prompts';
+import pc from 'picocolors';
+import type { AdoptOptions, AdoptResult, VelocityConfig } from './types.js';
+import type { ComponentRegistry, ComponentSelection } from './registry/types.js';
+import type { TemplateSource } from './utils/template-source.js';
+import { readVelocityConfig, writeVelocityConfig, formatComponentsConfig } from './utils/velocity-config.js';
+import { readJson } from './utils/fs.js';
+import { readPackageJson } from './utils/package-json.js';
+import { expandPaths } from './utils/diff.js';
+import { readManifest, createFallbackManifest, listTemplateVersions, resolveVersionRef } from './utils/manifest.js';
+import { writeTemplateBase } from './utils/template-base.js';
+import { parseTemplateSource, DEFAULT_TEMPLATE_SOURCE } from './utils/template-source.js';
+import { fetchTemplate } from './utils/template-cache.js';
+import { fetchRegistry } from './registry/fetcher.js';
+import { applyTemplateOverlays } from './scaffold.js';
+import { showAdoptIntro, showAdoptSummary, confirmAdopt } from './adopt-prompts.js';
+
+// Only present in projects scaffolded with demo content
+const DEMO_MARKERS = ['src/components/landing', 'src/layouts/LandingLayout.astro'];
+
+interface VersionMatch {
+  version: string;
+  // Template download with overlays applied
+  dir: string;
+  files: string[];
+  matched: number;
+  compared: number;
+}
+
+/**
+ * Removes a temp directory, ignoring errors.
+ */
+function cleanup(dir: string): void {
+  try {
+    rmSync(dir, { recursive: true, force: true });
+  } catch {
+    // Ignore cleanup errors
+  }
+}
+
+/**
+ * Detects the i18n overlay and demo content from files the scaffold leaves behind.
+ */
+function detectFeatures(targetDir: string): { i18n: boolean; demo: boolean } {
+  return {
+    i18n: existsSync(join(targetDir, 'src/i18n/config.ts')),
+    demo: DEMO_MARKERS.some((marker) => existsSync(join(targetDir, marker))),
+  };
+}
+
+/**
+ * Works out the component selection from which registry components are fully installed.
+ */
+function detectComponents(targetDir: string, registry: ComponentRegistry): ComponentSelection {
+  const ids = Object.keys(registry.components);
+  const installed = ids.filter((id) =>
+    registry.components[id]!.files.every((file) => existsSync(join(targetDir, file)))
+  );
+
+  if (installed.length === 0) return { mode: 'none' };
+  if (installed.length === ids.length) return { mode: 'all' };
+
+  // Categories whose components are all present
+  const categories = Object.keys(registry.categories).filter((category) => {
+    const members = ids.filter((id) => registry.components[id]!.category === category);
+    return members.length > 0 && members.every((id) => installed.includes(id));
+  });
+  const fromCategories = ids.filter((id) => categories.includes(registry.components[id]!.category));
+
+  if (categories.length > 0 && fromCategories.length === installed.length) {
+    return { mode: 'categories', categories };
+  }
+  return { mode: 'individual', components: installed };
+}
+
+/**
+ * Downloads a template version, applies the project's overlays and counts how
+ * many of its framework files the project has unchanged.
+ */
+async function matchVersion(
+  source: TemplateSource,
+  targetDir: string,
+  version: string,
+  ref: string,
+  features: { i18n: boolean; demo: boolean }
+): Promise<VersionMatch> {
+  const dir = join(tmpdir(), `velocity-adopt-${version}-${Date.now()}`);
+
+  try {
+    await fetchTemplate(source, dir, ref);
+    applyTemplateOverlays(dir, features);
+  } catch (error) {
+    cleanup(dir);
+    throw error;
+  }
+
+  const manifest = readManifest(dir) ?? createFallbackManifest(version);
+  const files = expandPaths(manifest.files.safe, dir);
+  let matched = 0;
+  let compared = 0;
+
+  for (const file of files) {
+    const projectPath = join(targetDir, file);
+    const templatePath = join(dir, file);
+    if (!existsSync(projectPath) || !existsSync(templatePath)) continue;
+
+    compared++;
+    if (readFileSync(projectPath).equals(readFileSync(templatePath))) matched++;
+  }
+
+  return { version, dir, files, matched, compared };
+}
+
+/**
+ * Compares the project against every released template version (newest first)
+ * and returns the closest one. Stops early on an exact match.
+ */
+async function fingerprintVersion(
+  source: TemplateSource,
+  targetDir: string,
+  features: { i18n: boolean; demo: boolean },
+  onProgress: (version: string) => void
+): Promise<VersionMatch | null> {
+  const versions = (await listTemplateVersions(source)).reverse();
+  const score = (m: VersionMatch) => (m.compared > 0 ? m.matched / m.compared : 0);
+  let best: VersionMatch | null = null;
+
+  for (const { version, tag } of versions) {
+    onProgress(version);
+
+    let match: VersionMatch;
+    try {
+      match = await matchVersion(source, targetDir, version, tag, features);
+    } catch {
+      // Skip releases that can't be downloaded
+      continue;
+    }
+
+    if (!best || score(match) > score(best)) {
+      if (best) cleanup(best.dir);
+      best = match;
+    } else {
+      cleanup(match.dir);
+    }
+
+    if (match.compared > 0 && match.matched === match.compared) break;
+  }
+
+  return best;
+}
+
+/**
+ * Loads the component registry shipped with a template, or the latest one.
+ */
+async function loadRegistry(
+  source: TemplateSource,
+  templateDir: string
+): Promise<ComponentRegistry | null> {
+  const registryPath = join(templateDir, 'component-registry.json');
+  try {
+    return existsSync(registryPath)
+      ? readJson<ComponentRegistry>(registryPath)
+      : await fetchRegistry(source);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Brings a project created before .velocity.json existed onto the upgrade path:
+ * infers its template version and features, then writes .velocity.json and a
+ * template snapshot as if it had been scaffolded by this CLI.
+ */
+export async function adopt(options: AdoptOptions): Promise<void> {
+  const { targetDir, dryRun, yes, base, template } = options;
+
+  showAdoptIntro();
+
+  let source: TemplateSource;
+  try {
+    source = parseTemplateSource(template ?? DEFAULT_TEMPLATE_SOURCE);
+  } catch (error) {
+    p.log.error(pc.red(error instanceof Error ? error.message : `Invalid template source: ${template}`));
+    process.exit(1);
+  }
+
+  const existing = readVelocityConfig(targetDir);
+  if (existing) {
+    p.log.error(
+      pc.red(
+        `This project is already tracked by .velocity.json (v${existing.version}).\n` +
+        'Run `upgrade` to update it.'
+      )
+    );
+    process.exit(1);
+  }
+
+  const pkg = readPackageJson(targetDir);
+  if (!pkg?.dependencies?.astro && !pkg?.devDependencies?.astro) {
+    p.log.error(pc.red("This doesn't appear to be an Astro project (no astro dependency in package.json)."));
+    process.exit(1);
+  }
+
+  const features = detectFeatures(targetDir);
+  const spinner = p.spinner();
+  let match: VersionMatch | null;
+
+  if (base) {
+    spinner.start(`Downloading template v${base.replace(/^v/, '')}...`);
+    try {
+      const tag = await resolveVersionRef(source, base);
+      match = await matchVersion(source, targetDir, base.replace(/^v/, ''), tag, features);
+      spinner.stop('Template downloaded');
+    } catch (error) {
+      spinner.stop('Failed to download template');
+      p.log.error(pc.red(`Could not download template ${base}.\n${error instanceof Error ? error.message : ''}`));
+      process.exit(1);
+    }
+  } else {
+    spinner.start('Comparing with released template versions...');
+    try {
+      match = await fingerprintVersion(source, targetDir, features, (version) =>
+        spinner.message(`Comparing with v${version}...`)
+      );
+    } catch (error) {
+      spinner.stop('Failed to list template versions');
+      p.log.error(pc.red(error instanceof Error ? error.message : 'Could not list template versions'));
+      process.exit(1);
+    }
+
+    if (!match) {
+      spinner.stop('No template versions could be compared');
+      p.log.error(pc.red('Could not download any released template. Use --base=<version> to set it manually.'));
+      process.exit(1);
+    }
+    spinner.stop(`Closest match: v${match.version}`);
+  }
+
+  const registry = await loadRegistry(source, match.dir);
+  if (!registry) {
+    p.log.warn(pc.yellow('Could not load the component registry. Assuming all components are installed.'));
+  }
+  const selection: ComponentSelection = registry ? detectComponents(targetDir, registry) : { mode: 'all' };
+
+  const result: AdoptResult = {
+    version: match.version,
+    matched: base ? 0 : match.matched,
+    compared: base ? 0 : match.compared,
+    features: {
+      demo: features.demo,
+      i18n: features.i18n,
+      components: formatComponentsConfig(selection),
+    },
+  };
+
+  showAdoptSummary(result);
+
+  if (dryRun) {
+    p.outro(pc.dim('Dry run complete. No changes were made.'));
+    cleanup(match.dir);
+    return;
+  }
+
+  if (!(await confirmAdopt(yes))) {
+    cleanup(match.dir);
+    return;
+  }
+
+  const today = new Date().toISOString().slice(0, 10);
+  const config: VelocityConfig = {
+    version: result.version,
+    createdAt: today,
+    updatedAt: today,
+    features: result.features,
+    ...(template ? { template } : {}),
+  };
+
+  writeVelocityConfig(targetDir, config);
+  // Pristine files of the matched version, so the first upgrade can merge local edits
+  writeTemplateBase(targetDir, match.dir, match.files);
+  cleanup(match.dir);
+
+  p.log.success(pc.green('Wrote .velocity.json'));
+  p.log.success(pc.green('Recorded template snapshot in .velocity/base'));
+  p.outro(pc.green(`Project adopted at v${result.version}. Run ${pc.cyan('upgrade --dry-run')} to see what's new.`));
+}
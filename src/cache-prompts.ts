@@ -0,0 +1,49 @@
+import * as p from '@clack/prompts';
+import pc from 'picocolors';
+import type { CachedTemplate } from './types.js';
+
+/**
+ * Formats a byte count for display.
+ */
+function formatSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+/**
+ * Shows the cache intro.
+ */
+export function showCacheIntro(): void {
+  console.log();
+  p.intro(pc.bgCyan(pc.black(' Velocity Cache ')));
+}
+
+/**
+ * Lists cached templates grouped by source.
+ */
+export function showCacheList(
+  entries: { template: CachedTemplate; size: number }[],
+  cacheDir: string
+): void {
+  if (entries.length === 0) {
+    p.outro(pc.dim('No cached templates. Run `cache prefetch` to download one.'));
+    return;
+  }
+
+  const lines: string[] = [];
+  let source: string | null = null;
+  for (const { template, size } of entries) {
+    if (template.source !== source) {
+      source = template.source;
+      lines.push(pc.bold(source));
+    }
+    lines.push(
+      `  ${pc.green(`v${template.version}`)}  ` +
+      pc.dim(`${template.cachedAt.slice(0, 10)}  ${formatSize(size)}${template.ref ? `  (${template.ref})` : ''}`)
+    );
+  }
+
+  p.log.message(lines.join('\n'));
+  p.outro(pc.dim(`Stored in ${cacheDir}`));
+}
@@ -0,0 +1,94 @@
+import { rmSync } from 'node:fs';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import * as p from '@clack/prompts';
+import pc from 'picocolors';
+import type { CacheOptions } from './types.js';
+import type { TemplateSource } from './utils/template-source.js';
+import { parseTemplateSource, downloadFromSource, describeTemplateSource, DEFAULT_TEMPLATE_SOURCE } from './utils/template-source.js';
+import {
+  getCacheDir,
+  listCachedTemplates,
+  cacheTemplate,
+  clearCache,
+  getCachedTemplateSize,
+} from './utils/template-cache.js';
+import { showCacheIntro, showCacheList } from './cache-prompts.js';
+
+/**
+ * Downloads a template version into the cache.
+ */
+async function prefetch(source: TemplateSource, ref?: string): Promise<void> {
+  if (source.provider === 'local') {
+    p.outro(pc.dim('Local template directories are read directly and never cached.'));
+    return;
+  }
+
+  const spinner = p.spinner();
+  spinner.start(`Downloading template from ${describeTemplateSource(source)}${ref ? ` (${ref})` : ''}...`);
+
+  const tempDir = join(tmpdir(), `velocity-cache-${Date.now()}`);
+  // Exit only after `finally` has removed the download (process.exit would skip it)
+  let failed = false;
+  try {
+    await downloadFromSource(source, tempDir, ref);
+    const cached = cacheTemplate(source, tempDir, ref);
+    spinner.stop(`Cached v${cached.version}`);
+  } catch (error) {
+    spinner.stop('Failed to download template');
+    p.log.error(pc.red(error instanceof Error ? error.message : 'Could not download template'));
+    failed = true;
+  } finally {
+    rmSync(tempDir, { recursive: true, force: true });
+  }
+
+  if (failed) {
+    process.exit(1);
+  }
+
+  p.outro(pc.green(`Scaffold without a network connection with ${pc.cyan('--offline')}.`));
+}
+
+/**
+ * Lists, prefetches or clears cached templates used by --offline.
+ */
+export async function cache(options: CacheOptions): Promise<void> {
+  const { action, template, to } = options;
+
+  showCacheIntro();
+
+  let source: TemplateSource | undefined;
+  try {
+    source = template || action === 'prefetch'
+      ? parseTemplateSource(template ?? DEFAULT_TEMPLATE_SOURCE)
+      : undefined;
+  } catch (error) {
+    p.log.error(pc.red(error instanceof Error ? error.message : `Invalid template source: ${template}`));
+    process.exit(1);
+  }
+
+  switch (action) {
+    case 'list': {
+      const entries = listCachedTemplates(source).map((entry) => ({
+        template: entry,
+        size: getCachedTemplateSize(entry),
+      }));
+      showCacheList(entries, getCacheDir());
+      return;
+    }
+
+    case 'prefetch':
+      await prefetch(source!, to);
+      return;
+
+    case 'clear': {
+      const removed = clearCache(source);
+      p.outro(
+        removed > 0
+          ? pc.green(`Removed ${removed} cached template${removed !== 1 ? 's' : ''}.`)
+          : pc.dim('Nothing to clear.')
+      );
+      return;
+    }
+  }
+}
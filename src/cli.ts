@@ -3,13 +3,26 @@ import { resolve } from 'node:path';
 import { existsSync } from 'node:fs';
 import * as p from '@clack/prompts';
 import pc from 'picocolors';
-import type { CliOptions } from './types.js';
-import type { ComponentSelection } from './registry/types.js';
-import { runPrompts, showIntro, showOutro, showError } from './prompts.js';
+import type { CacheAction, CliOptions, ScaffoldOptions, ScaffoldPreset } from './types.js';
+import type { ComponentRegistry, ComponentSelection } from './registry/types.js';
+import type { TemplateSource } from './utils/template-source.js';
+import { runPrompts, promptPresetName, isInteractive, showIntro, showOutro, showError } from './prompts.js';
 import { scaffold } from './scaffold.js';
-import { upgrade } from './upgrade.js';
+import { upgrade, undoUpgrade, listUpgradeBackups, checkForUpgrade } from './upgrade.js';
+import { adopt } from './adopt.js';
+import { cache } from './cache.js';
 import { isEmptyDir } from './utils/fs.js';
-import { toValidProjectName } from './utils/validate.js';
+import { toValidProjectName, validatePageName } from './utils/validate.js';
+import { PACKAGE_MANAGERS } from './utils/package-manager.js';
+import { PAGE_LAYOUTS } from './features/pages.js';
+import { DEPLOY_TARGETS } from './features/deploy.js';
+import { CLI_VERSION } from './version.js';
+import { parseTemplateSource, normalizeTemplateSource, DEFAULT_TEMPLATE_SOURCE } from './utils/template-source.js';
+import { setOfflineMode } from './utils/template-cache.js';
+import { loadPreset, savePreset, createPreset } from './utils/preset.js';
+import { parseComponentsConfig } from './utils/velocity-config.js';
+import { fetchRegistry } from './registry/fetcher.js';
+import { parseComponentSelectors } from './registry/resolver.js';
 
 const HELP_TEXT = `
 ${pc.bold('create-velocity-astro')} - Create and upgrade Velocity projects
@@ -21,15 +34,48 @@ ${pc.bold('Usage:')}
 ${pc.bold('Commands:')}
   ${pc.cyan('upgrade')}             Upgrade an existing Velocity project to the latest version
     --dry-run           Preview changes without applying them
+    --check             Exit 2 if the project is outdated, 3 if the CLI is too old
+    --diff              Show line-level diffs with --dry-run
+    --review            Apply, skip or defer each changed file individually
+    --verify            Install, type-check and build afterwards; roll back on failure
+    --branch            Upgrade on a new velocity/upgrade-v<version> branch and commit
+    --json              Print a JSON report to stdout (non-interactive)
+    --to=<ref>          Upgrade to a specific version, tag or commit
+    --template=<source> Upgrade from another template source (saved for later upgrades)
+    --undo[=<id>]       Restore the latest (or given) pre-upgrade backup
+    --list-backups      List pre-upgrade backups
     --yes, -y           Skip confirmation prompts
+  ${pc.cyan('adopt')}               Start tracking a project created before v1.6.0 so it can be upgraded
+    --base=<version>    Record this template version instead of detecting it
+    --template=<source> Compare against a custom template source
+    --dry-run           Show what was detected without writing anything
+    --yes, -y           Skip confirmation prompts
+  ${pc.cyan('cache')} [action]      Manage templates cached for --offline
+    list                List cached template versions (default)
+    prefetch            Download a template into the cache (--template, --to)
+    clear               Remove cached templates (only --template's, if given)
 
 ${pc.bold('Options:')}
   --demo              Include demo landing page and sample content
   --components        Include all components (default: prompt for selection)
   --components=none   Exclude all components
   --components=ui,patterns  Include specific categories
+  --components=ui/form,button  Mix categories, category/subcategory and component IDs
   --i18n              Add internationalization support
   --pages             Prompt for starter pages to generate
+  --pages=about,pricing  Generate these starter pages (--no-pages to skip)
+  --page-layout=<page|landing>  Layout for generated pages (landing needs --demo)
+  --pm=<pnpm|npm|yarn|bun>  Package manager to install with
+  --deploy=<target>   Configure hosting: static (default), vercel, netlify,
+                      cloudflare or node (adds the adapter and host config)
+  --no-git            Don't initialize a git repository
+  --no-install        Don't install dependencies
+  --overwrite         Scaffold into a non-empty directory without asking
+  --template=<source> Use a custom template: giget source (github:org/fork#branch,
+                      gitlab:org/repo, tarball URL) or a local directory
+  --offline           Scaffold from the local template cache without network access
+  --preset=<name|file>  Load choices from a saved preset (JSON or YAML)
+  --save-preset[=<name|file>]  Save your answers as a preset
   --yes, -y           Skip prompts and use defaults
   --help, -h          Show this help message
   --version, -v       Show version number
@@ -43,19 +89,37 @@ ${pc.bold('Examples:')}
   npm create velocity-astro@latest my-site
   npm create velocity-astro@latest my-site --demo --components
   npm create velocity-astro@latest my-site --components=ui,patterns
+  npm create velocity-astro@latest my-site --components=patterns,button,dialog
   pnpm create velocity-astro my-site -y
+  pnpm create velocity-astro my-site --template=github:acme/velocity-fork#main
+  pnpm create velocity-astro my-site --preset=agency -y
+  pnpm create velocity-astro my-site --deploy=vercel -y
+  pnpm create velocity-astro my-site --no-demo --components=none --no-i18n --pages=about,pricing --pm=npm --deploy=static --no-install
 
   ${pc.dim('# Upgrade an existing project')}
   pnpm create velocity-astro upgrade
-  pnpm create velocity-astro upgrade --dry-run
-`;
+  pnpm create velocity-astro upgrade --dry-run --diff
+  pnpm create velocity-astro upgrade --to=v1.8.0
+  pnpm create velocity-astro upgrade --check
+  pnpm create velocity-astro upgrade --undo
 
-const VERSION = '1.6.1';
+  ${pc.dim('# Cache the template, then scaffold without a network connection')}
+  pnpm create velocity-astro cache prefetch
+  pnpm create velocity-astro my-site --offline -y
+
+  ${pc.dim('# Start tracking a project created before v1.6.0')}
+  pnpm create velocity-astro adopt
+`;
 
 /**
- * Parses the --components flag into a ComponentSelection
+ * Parses the --components flag into a ComponentSelection. Lists may mix category
+ * IDs, "category/subcategory" selectors and component IDs; they are checked
+ * against the template's registry. Exits on unknown names.
  */
-function parseComponentsFlag(value: string | boolean | undefined): ComponentSelection | undefined {
+async function parseComponentsFlag(
+  value: string | boolean | undefined,
+  source: TemplateSource
+): Promise<ComponentSelection | undefined> {
   // Not specified - will prompt user
   if (value === undefined) {
     return undefined;
@@ -77,26 +141,122 @@ function parseComponentsFlag(value: string | boolean | undefined): ComponentSele
   }
 
   // --components=all
-  if (value === 'all' || value === 'true') {
+  if (value === 'all' || value === 'true' || value === '') {
     return { mode: 'all' };
   }
 
-  // --components=ui,patterns,hero (category list)
-  const categories = value.split(',').map((s) => s.trim().toLowerCase());
-  const validCategories = ['ui', 'patterns', 'hero'];
-  const filtered = categories.filter((c) => validCategories.includes(c));
+  // --components=ui,patterns/forms,button
+  const names = [...new Set(value.split(',').map((s) => s.trim().toLowerCase()).filter(Boolean))];
+  return checkComponentNames(names, source, '--components');
+}
+
+/**
+ * Parses a preset's components value, checking the names it lists against
+ * the template's registry like --components. Exits on unknown names.
+ */
+async function parsePresetComponents(value: string, source: TemplateSource, origin: string): Promise<ComponentSelection> {
+  const selection = parseComponentsConfig(value);
+  if (selection.mode === 'all' || selection.mode === 'none') {
+    return selection;
+  }
+
+  return checkComponentNames([...selection.categories ?? [], ...selection.components ?? []], source, origin);
+}
+
+/**
+ * Resolves category IDs, "category/subcategory" selectors and component IDs
+ * against the template's registry. Exits listing unknown names with suggestions.
+ */
+async function checkComponentNames(
+  names: string[],
+  source: TemplateSource,
+  origin: string
+): Promise<ComponentSelection> {
+  let registry: ComponentRegistry;
+  try {
+    registry = await fetchRegistry(source);
+  } catch (error) {
+    showError(`Could not check ${origin} against the component registry.\n${error instanceof Error ? error.message : ''}`);
+    process.exit(1);
+  }
+
+  const { selection, unknown } = parseComponentSelectors(names, registry);
+  if (unknown.length > 0) {
+    showError(
+      unknown
+        .map(({ name, suggestion }) =>
+          `Unknown component or category "${name}" in ${origin}${suggestion ? ` (did you mean "${suggestion}"?)` : ''}`)
+        .join('\n')
+    );
+    process.exit(1);
+  }
+
+  return selection;
+}
+
+/**
+ * Parses --pages: a bare flag means "prompt for names", --pages=about,pricing
+ * gives them directly and --no-pages skips page generation. Exits on invalid names.
+ */
+function parsePagesFlag(value: string | boolean | undefined): { generate?: boolean; names?: string[] } {
+  if (value === undefined) {
+    return {};
+  }
+
+  if (value === false) {
+    return { generate: false };
+  }
 
-  if (filtered.length === 0) {
-    return { mode: 'all' }; // Fall back to all if no valid categories
+  if (value === true || value === '') {
+    return { generate: true };
+  }
+
+  const names = value.split(',').map((s) => s.trim().toLowerCase()).filter(Boolean);
+  const invalid = names.map((name) => validatePageName(name)).filter((result) => !result.valid);
+  if (invalid.length > 0) {
+    showError(`Invalid --pages value:\n${invalid.map((result) => `  - ${result.message}`).join('\n')}`);
+    process.exit(1);
   }
 
-  return { mode: 'categories', categories: filtered };
+  return { generate: names.length > 0, names };
+}
+
+/**
+ * Validates a flag that takes one of a fixed set of values
+ */
+function parseChoiceFlag<T extends string>(flag: string, value: string | undefined, choices: T[]): T | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+
+  if (!choices.includes(value as T)) {
+    showError(`--${flag} must be one of: ${choices.join(', ')} (got "${value}")`);
+    process.exit(1);
+  }
+
+  return value as T;
+}
+
+/**
+ * Validates --template and returns the form stored in .velocity.json
+ */
+function parseTemplateFlag(value: string | undefined): string | undefined {
+  if (!value) {
+    return undefined;
+  }
+
+  try {
+    return normalizeTemplateSource(value);
+  } catch (error) {
+    showError(error instanceof Error ? error.message : `Invalid template source: ${value}`);
+    process.exit(1);
+  }
 }
 
 export async function run(argv: string[]): Promise<void> {
   const args = mri<CliOptions>(argv, {
-    boolean: ['demo', 'i18n', 'pages', 'help', 'version', 'yes', 'dry-run'],
-    string: ['components'],
+    boolean: ['demo', 'i18n', 'git', 'install', 'overwrite', 'help', 'version', 'yes', 'dry-run', 'diff', 'review', 'verify', 'branch', 'json', 'check', 'list-backups', 'offline'],
+    string: ['components', 'pages', 'page-layout', 'pm', 'deploy', 'undo', 'to', 'base', 'template', 'preset', 'save-preset'],
     alias: {
       h: 'help',
       v: 'version',
@@ -112,99 +272,237 @@ export async function run(argv: string[]): Promise<void> {
 
   // Handle version
   if (args.version) {
-    console.log(VERSION);
+    console.log(CLI_VERSION);
     return;
   }
 
+  const template = parseTemplateFlag(args.template);
+
   // Handle upgrade subcommand
   const subcommand = args._[0] as string | undefined;
   if (subcommand === 'upgrade') {
     const targetDir = resolve(process.cwd());
+    const flags = args as unknown as Record<string, unknown>;
+
+    if (flags['list-backups']) {
+      listUpgradeBackups(targetDir);
+      return;
+    }
+
+    if (flags.check) {
+      await checkForUpgrade({
+        targetDir,
+        to: args.to || undefined,
+        json: flags.json as boolean || false,
+        template,
+      });
+      return;
+    }
+
+    if (typeof args.undo === 'string') {
+      await undoUpgrade({
+        targetDir,
+        backupId: args.undo || undefined,
+        yes: args.yes || false,
+      });
+      return;
+    }
+
     await upgrade({
       targetDir,
-      dryRun: (args as unknown as Record<string, unknown>)['dry-run'] as boolean || false,
+      dryRun: flags['dry-run'] as boolean || false,
+      diff: flags.diff as boolean || false,
+      review: flags.review as boolean || false,
+      verify: flags.verify as boolean || false,
+      branch: flags.branch as boolean || false,
+      json: flags.json as boolean || false,
       yes: args.yes || false,
+      to: args.to || undefined,
+      template,
     });
     return;
   }
 
+  if (subcommand === 'adopt') {
+    const flags = args as unknown as Record<string, unknown>;
+    await adopt({
+      targetDir: resolve(process.cwd()),
+      dryRun: flags['dry-run'] as boolean || false,
+      yes: args.yes || false,
+      base: args.base || undefined,
+      template,
+    });
+    return;
+  }
+
+  if (subcommand === 'cache') {
+    const action = (args._[1] as string | undefined) ?? 'list';
+    if (!['list', 'prefetch', 'clear'].includes(action)) {
+      showError(`Unknown cache action "${action}". Use list, prefetch or clear.`);
+      process.exit(1);
+    }
+    await cache({
+      action: action as CacheAction,
+      template,
+      to: args.to || undefined,
+    });
+    return;
+  }
+
+  setOfflineMode(args.offline || false);
+
   showIntro();
 
+  // Saved choices; command-line flags take precedence
+  let preset: ScaffoldPreset = {};
+  if (args.preset) {
+    try {
+      preset = loadPreset(args.preset);
+    } catch (error) {
+      showError(error instanceof Error ? error.message : `Could not load preset ${args.preset}`);
+      process.exit(1);
+    }
+  }
+  const scaffoldTemplate = template ?? parseTemplateFlag(preset.template);
+  const scaffoldSource = parseTemplateSource(scaffoldTemplate ?? DEFAULT_TEMPLATE_SOURCE);
+  const flags = args as unknown as Record<string, unknown>;
+  const savePresetTarget = flags['save-preset'] as string | undefined;
+
   // Get project name from args or prompt
   const argProjectName = args._[0] as string | undefined;
 
   // Parse component selection from CLI
-  const componentSelection = parseComponentsFlag(args.components);
+  const componentSelection = await parseComponentsFlag(args.components, scaffoldSource)
+    ?? (preset.components
+      ? await parsePresetComponents(preset.components, scaffoldSource, `preset ${args.preset}`)
+      : undefined);
+
+  // Answers given by flags (or the preset); anything undefined is prompted for
+  const pagesFlag = parsePagesFlag(args.pages);
+  const demo = args.demo ?? preset.demo;
+  const i18n = args.i18n ?? preset.i18n;
+  const pageNames = pagesFlag.names ?? preset.pages;
+  const generatePages = pagesFlag.generate ?? (preset.pages ? preset.pages.length > 0 : undefined);
+  const pageLayout = parseChoiceFlag('page-layout', flags['page-layout'] as string | undefined, PAGE_LAYOUTS)
+    ?? preset.pageLayout;
+  const packageManager = parseChoiceFlag('pm', args.pm, PACKAGE_MANAGERS) ?? preset.packageManager;
+  const deploy = parseChoiceFlag('deploy', args.deploy, DEPLOY_TARGETS) ?? preset.deploy;
+  const git = args.git ?? preset.git ?? true;
+  const install = args.install ?? preset.install ?? true;
+  const overwrite = flags.overwrite as boolean || false;
+  const interactive = !args.yes && isInteractive();
+
+  if (pageLayout === 'landing' && demo === false) {
+    showError('--page-layout=landing requires --demo (LandingLayout ships with the demo content).');
+    process.exit(1);
+  }
+
+  let options: ScaffoldOptions;
+
+  if (!interactive) {
+    // Without a terminal, every prompt must be answered up front (or defaulted with --yes)
+    if (!args.yes) {
+      const missing = [
+        !argProjectName && '[project-name]',
+        demo === undefined && '--demo or --no-demo',
+        !componentSelection && '--components',
+        i18n === undefined && '--i18n or --no-i18n',
+        generatePages === undefined && '--pages=<names> or --no-pages',
+        generatePages && !pageNames?.length && '--pages=<names>',
+        generatePages && demo && !pageLayout && '--page-layout',
+        !packageManager && '--pm',
+        !deploy && '--deploy',
+      ].filter(Boolean);
+
+      if (missing.length > 0) {
+        showError(
+          'Cannot prompt for answers: not running in an interactive terminal.\n' +
+          `Pass ${missing.join(', ')}, or use --yes to accept defaults.`
+        );
+        process.exit(1);
+      }
+    }
 
-  // Skip prompts mode
-  if (args.yes) {
     const projectName = toValidProjectName(argProjectName || 'my-velocity-site');
     const targetDir = resolve(process.cwd(), projectName);
 
-    if (existsSync(targetDir) && !isEmptyDir(targetDir)) {
-      showError(`Directory "${projectName}" already exists and is not empty.`);
+    if (existsSync(targetDir) && !isEmptyDir(targetDir) && !overwrite) {
+      showError(`Directory "${projectName}" already exists and is not empty. Use --overwrite to replace it.`);
       process.exit(1);
     }
 
-    await scaffold({
+    options = {
       projectName,
       targetDir,
-      demo: args.demo || false,
+      demo: demo ?? false,
       componentSelection: componentSelection || { mode: 'all' },
-      i18n: args.i18n || false,
-      pages: [],
-      pageLayout: 'page',
-      packageManager: 'pnpm',
-    });
+      i18n: i18n ?? false,
+      pages: generatePages ? pageNames ?? [] : [],
+      pageLayout: demo ? pageLayout ?? 'page' : 'page',
+      packageManager: packageManager ?? 'pnpm',
+      deploy: deploy ?? 'static',
+      git,
+      install,
+      template: scaffoldTemplate,
+    };
+  } else {
+    // Interactive mode
+    const answers = await runPrompts({
+      projectName: argProjectName,
+      demo,
+      componentSelection: componentSelection,
+      i18n,
+      pages: generatePages,
+      pageNames,
+      pageLayout,
+      packageManager,
+      deploy,
+    }, scaffoldSource);
 
-    showOutro(projectName, 'pnpm');
-    return;
-  }
+    // User cancelled
+    if (typeof answers === 'symbol') {
+      return;
+    }
 
-  // Interactive mode
-  const answers = await runPrompts({
-    projectName: argProjectName,
-    demo: args.demo,
-    componentSelection: componentSelection,
-    i18n: args.i18n,
-    pages: args.pages,
-  });
+    const targetDir = resolve(process.cwd(), answers.projectName);
 
-  // User cancelled
-  if (typeof answers === 'symbol') {
-    return;
-  }
+    // Check if directory exists and is not empty
+    if (existsSync(targetDir) && !isEmptyDir(targetDir) && !overwrite) {
+      const shouldOverwrite = await p.confirm({
+        message: `Directory "${answers.projectName}" already exists. Continue and overwrite?`,
+        initialValue: false,
+      });
 
-  const { projectName, demo, componentSelection: selectedComponents, i18n, pages, pageLayout, packageManager } = answers;
-  const targetDir = resolve(process.cwd(), projectName);
+      if (!shouldOverwrite || p.isCancel(shouldOverwrite)) {
+        p.cancel('Operation cancelled.');
+        process.exit(0);
+      }
+    }
 
-  // Check if directory exists and is not empty
-  if (existsSync(targetDir) && !isEmptyDir(targetDir)) {
-    const shouldOverwrite = await p.confirm({
-      message: `Directory "${projectName}" already exists. Continue and overwrite?`,
-      initialValue: false,
-    });
+    options = {
+      ...answers,
+      targetDir,
+      git,
+      install,
+      template: scaffoldTemplate,
+    };
+  }
 
-    if (!shouldOverwrite || p.isCancel(shouldOverwrite)) {
-      p.cancel('Operation cancelled.');
-      process.exit(0);
+  // --save-preset captures the answers for next time
+  if (savePresetTarget !== undefined) {
+    const target = savePresetTarget || (interactive ? await promptPresetName() : '');
+    if (!target) {
+      showError('--save-preset needs a preset name or file path when not prompting.');
+      process.exit(1);
     }
+    const path = savePreset(target, createPreset(options));
+    p.log.success(`Preset saved to ${pc.cyan(path)}`);
   }
 
   // Run scaffold
   try {
-    await scaffold({
-      projectName,
-      targetDir,
-      demo,
-      componentSelection: selectedComponents,
-      i18n,
-      pages,
-      pageLayout,
-      packageManager,
-    });
-
-    showOutro(projectName, packageManager);
+    await scaffold(options);
+    showOutro(options.projectName, options.packageManager, options.install);
   } catch (error) {
     showError(error instanceof Error ? error.message : 'An unexpected error occurred');
     process.exit(1);
@@ -0,0 +1,117 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { copyFileSync, existsSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { join, resolve, dirname } from 'node:path';
+import { tmpdir } from 'node:os';
+import { fileURLToPath } from 'node:url';
+import { applyDeployTarget, configureAstroAdapter } from './deploy.js';
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+const I18N_CONFIG = resolve(__dirname, '..', '..', 'templates', 'i18n', 'astro.config.mjs');
+
+const read = (dir: string, file: string) => readFileSync(join(dir, file), 'utf-8');
+
+describe('deploy', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'velocity-deploy-'));
+    copyFileSync(I18N_CONFIG, join(dir, 'astro.config.mjs'));
+    writeFileSync(join(dir, 'package.json'), JSON.stringify({ name: 'my-site', dependencies: { astro: '^6.0.0' } }));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  describe('configureAstroAdapter', () => {
+    it('adds the adapter import and options after site', () => {
+      configureAstroAdapter(dir, 'vercel');
+      const config = read(dir, 'astro.config.mjs');
+
+      expect(config).toContain("import tailwindcss from '@tailwindcss/vite';\nimport vercel from '@astrojs/vercel';\n");
+      expect(config).toMatch(/site: .*\n\n {2}output: 'static',\n {2}adapter: vercel\(\),\n/);
+      // The i18n settings stay intact
+      expect(config).toContain("defaultLocale: 'en'");
+    });
+
+    it('runs the Node adapter as a standalone server', () => {
+      configureAstroAdapter(dir, 'node');
+      const config = read(dir, 'astro.config.mjs');
+
+      expect(config).toContain("output: 'server',\n  adapter: node({ mode: 'standalone' }),");
+    });
+
+    it('replaces an existing output setting', () => {
+      writeFileSync(join(dir, 'astro.config.mjs'), "import { defineConfig } from 'astro/config';\n\nexport default defineConfig({\n  output: 'server',\n});\n");
+      configureAstroAdapter(dir, 'netlify');
+
+      expect(read(dir, 'astro.config.mjs')).toBe(
+        "import { defineConfig } from 'astro/config';\nimport netlify from '@astrojs/netlify';\n\n" +
+        "export default defineConfig({\n  output: 'static',\n  adapter: netlify(),\n});\n"
+      );
+    });
+
+    it('leaves configs that already have an adapter alone', () => {
+      configureAstroAdapter(dir, 'vercel');
+      const once = read(dir, 'astro.config.mjs');
+      configureAstroAdapter(dir, 'netlify');
+
+      expect(read(dir, 'astro.config.mjs')).toBe(once);
+    });
+
+    it('does nothing for static sites', () => {
+      configureAstroAdapter(dir, 'static');
+      expect(read(dir, 'astro.config.mjs')).toBe(readFileSync(I18N_CONFIG, 'utf-8'));
+    });
+  });
+
+  describe('applyDeployTarget', () => {
+    const options = { projectName: '@acme/my-site', packageManager: 'pnpm' as const };
+
+    it('adds the adapter dependency and vercel.json', () => {
+      applyDeployTarget(dir, 'vercel', options);
+
+      expect(JSON.parse(read(dir, 'package.json')).dependencies).toEqual({
+        '@astrojs/vercel': '^10.0.0',
+        astro: '^6.0.0',
+      });
+      expect(JSON.parse(read(dir, 'vercel.json'))).toMatchObject({ cleanUrls: true, trailingSlash: false });
+    });
+
+    it('writes netlify.toml with the project package manager', () => {
+      applyDeployTarget(dir, 'netlify', options);
+      expect(read(dir, 'netlify.toml')).toContain('command = "pnpm run build"');
+    });
+
+    it('writes wrangler.toml that leaves the entry and assets dir to the adapter', () => {
+      applyDeployTarget(dir, 'cloudflare', options);
+      const today = new Date().toISOString().slice(0, 10);
+
+      expect(read(dir, 'wrangler.toml')).toBe(
+        'name = "my-site"\n' +
+        `compatibility_date = "${today}"\n` +
+        'compatibility_flags = ["nodejs_compat"]\n\n' +
+        '[assets]\nbinding = "ASSETS"\n'
+      );
+      expect(read(dir, 'public/_headers')).toContain('Cache-Control: public, max-age=31536000, immutable');
+    });
+
+    it('adds a start script for Node', () => {
+      applyDeployTarget(dir, 'node', options);
+      expect(JSON.parse(read(dir, 'package.json')).scripts).toEqual({ start: 'node ./dist/server/entry.mjs' });
+    });
+
+    it('keeps host config files the project already has', () => {
+      writeFileSync(join(dir, 'vercel.json'), '{}\n');
+      applyDeployTarget(dir, 'vercel', options);
+
+      expect(read(dir, 'vercel.json')).toBe('{}\n');
+    });
+
+    it('changes nothing for static sites', () => {
+      applyDeployTarget(dir, 'static', options);
+      expect(existsSync(join(dir, 'vercel.json'))).toBe(false);
+      expect(JSON.parse(read(dir, 'package.json')).dependencies).toEqual({ astro: '^6.0.0' });
+    });
+  });
+});
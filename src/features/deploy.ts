@@ -0,0 +1,238 @@
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'node:fs';
+import { join, dirname } from 'node:path';
+import type { DeployTarget, PackageManager } from '../types.js';
+import { readPackageJson, writePackageJson } from '../utils/package-json.js';
+
+export const DEPLOY_TARGETS: DeployTarget[] = ['static', 'vercel', 'netlify', 'cloudflare', 'node'];
+
+export const DEPLOY_TARGET_LABELS: Record<DeployTarget, string> = {
+  static: 'Static',
+  vercel: 'Vercel',
+  netlify: 'Netlify',
+  cloudflare: 'Cloudflare',
+  node: 'Node.js',
+};
+
+interface AdapterConfig {
+  package: string;
+  version: string;
+  // Default import name in astro.config.mjs
+  importName: string;
+  // Expression passed as the adapter option
+  adapter: string;
+  output: 'static' | 'server';
+}
+
+// Hosted adapters keep pages prerendered; routes opt in to on-demand rendering.
+// The Node adapter runs the whole site as a standalone server.
+const ADAPTERS: Record<Exclude<DeployTarget, 'static'>, AdapterConfig> = {
+  vercel: {
+    package: '@astrojs/vercel',
+    version: '^10.0.0',
+    importName: 'vercel',
+    adapter: 'vercel()',
+    output: 'static',
+  },
+  netlify: {
+    package: '@astrojs/netlify',
+    version: '^7.0.0',
+    importName: 'netlify',
+    adapter: 'netlify()',
+    output: 'static',
+  },
+  cloudflare: {
+    package: '@astrojs/cloudflare',
+    version: '^13.0.0',
+    importName: 'cloudflare',
+    adapter: 'cloudflare()',
+    output: 'static',
+  },
+  node: {
+    package: '@astrojs/node',
+    version: '^10.0.0',
+    importName: 'node',
+    adapter: "node({ mode: 'standalone' })",
+    output: 'server',
+  },
+};
+
+// Astro's hashed build assets never change under the same URL
+const IMMUTABLE_CACHE = 'public, max-age=31536000, immutable';
+
+// Common feed URLs, pointed at the template's RSS route
+const FEED_REDIRECTS = ['/feed', '/rss'];
+
+/**
+ * Writes a file unless the project already has one (e.g. when scaffolding over an existing directory)
+ */
+function writeIfMissing(targetDir: string, relativePath: string, content: string): void {
+  const filePath = join(targetDir, relativePath);
+  if (existsSync(filePath)) return;
+
+  mkdirSync(dirname(filePath), { recursive: true });
+  writeFileSync(filePath, content);
+}
+
+/**
+ * Adds the adapter import and output/adapter options to astro.config.mjs.
+ * Leaves configs that already set an adapter alone.
+ */
+export function configureAstroAdapter(targetDir: string, target: DeployTarget): void {
+  if (target === 'static') return;
+
+  const configPath = join(targetDir, 'astro.config.mjs');
+  if (!existsSync(configPath)) {
+    throw new Error('astro.config.mjs not found in template');
+  }
+
+  const adapter = ADAPTERS[target];
+  let content = readFileSync(configPath, 'utf-8');
+  if (/^\s*adapter:/m.test(content)) return;
+
+  const imports = [...content.matchAll(/^import .+;$/gm)];
+  const lastImport = imports[imports.length - 1];
+  const importLine = `import ${adapter.importName} from '${adapter.package}';`;
+  content = lastImport
+    ? content.slice(0, lastImport.index! + lastImport[0].length) + `\n${importLine}` +
+      content.slice(lastImport.index! + lastImport[0].length)
+    : `${importLine}\n${content}`;
+
+  // Replace any existing output setting, then add ours after `site` (or at the top of the config)
+  content = content.replace(/^\s*output:.*\n/m, '');
+  const options = `  output: '${adapter.output}',\n  adapter: ${adapter.adapter},\n`;
+  const site = /^\s*site:.*\n/m.exec(content);
+  const anchor = site ?? /defineConfig\(\{\n/.exec(content);
+  if (!anchor) {
+    throw new Error('Could not find defineConfig({ ... }) in astro.config.mjs');
+  }
+  const insertAt = anchor.index + anchor[0].length;
+  content = content.slice(0, insertAt) + (site ? `\n${options}` : options) + content.slice(insertAt);
+
+  writeFileSync(configPath, content);
+}
+
+/**
+ * Adds the adapter package to package.json (and a start script for Node)
+ */
+function addAdapterDependency(targetDir: string, target: Exclude<DeployTarget, 'static'>): void {
+  const pkg = readPackageJson(targetDir);
+  if (!pkg) {
+    throw new Error('package.json not found in template');
+  }
+
+  const adapter = ADAPTERS[target];
+  pkg.dependencies = Object.fromEntries(
+    Object.entries({ ...pkg.dependencies, [adapter.package]: adapter.version })
+      .sort(([a], [b]) => a.localeCompare(b))
+  );
+
+  if (target === 'node') {
+    pkg.scripts = { ...pkg.scripts, start: pkg.scripts?.start ?? 'node ./dist/server/entry.mjs' };
+  }
+
+  writePackageJson(targetDir, pkg);
+}
+
+/**
+ * Writes vercel.json: clean URLs, cached build assets and feed redirects
+ */
+function writeVercelConfig(targetDir: string): void {
+  const config = {
+    $schema: 'https://openapi.vercel.sh/vercel.json',
+    cleanUrls: true,
+    trailingSlash: false,
+    headers: [
+      {
+        source: '/_astro/(.*)',
+        headers: [{ key: 'Cache-Control', value: IMMUTABLE_CACHE }],
+      },
+    ],
+    redirects: FEED_REDIRECTS.map((source) => ({ source, destination: '/rss.xml', permanent: true })),
+  };
+
+  writeIfMissing(targetDir, 'vercel.json', JSON.stringify(config, null, 2) + '\n');
+}
+
+/**
+ * Writes netlify.toml: build settings, cached build assets and feed redirects
+ */
+function writeNetlifyConfig(targetDir: string, packageManager: PackageManager): void {
+  const lines = [
+    '[build]',
+    `  command = "${packageManager} run build"`,
+    '  publish = "dist"',
+    '',
+    '[[headers]]',
+    '  for = "/_astro/*"',
+    '  [headers.values]',
+    `    Cache-Control = "${IMMUTABLE_CACHE}"`,
+    ...FEED_REDIRECTS.flatMap((from) => [
+      '',
+      '[[redirects]]',
+      `  from = "${from}"`,
+      '  to = "/rss.xml"',
+      '  status = 301',
+    ]),
+  ];
+
+  writeIfMissing(targetDir, 'netlify.toml', lines.join('\n') + '\n');
+}
+
+/**
+ * Writes wrangler.toml for Cloudflare Workers, plus _headers and _redirects
+ * in public/ for caching and redirects of the static assets
+ */
+function writeCloudflareConfig(targetDir: string, projectName: string): void {
+  // Worker names allow lowercase letters, numbers and dashes only
+  const name = projectName.replace(/^@[^/]+\//, '').toLowerCase().replace(/[^a-z0-9-]/g, '-');
+  const today = new Date().toISOString().slice(0, 10);
+
+  // No `main` or `assets.directory`: @astrojs/cloudflare 13 builds through the
+  // Cloudflare Vite plugin, which supplies its own worker entry and client assets dir
+  const wrangler = [
+    `name = "${name}"`,
+    `compatibility_date = "${today}"`,
+    'compatibility_flags = ["nodejs_compat"]',
+    '',
+    '[assets]',
+    'binding = "ASSETS"',
+  ];
+
+  writeIfMissing(targetDir, 'wrangler.toml', wrangler.join('\n') + '\n');
+  writeIfMissing(targetDir, 'public/_headers', `/_astro/*\n  Cache-Control: ${IMMUTABLE_CACHE}\n`);
+  writeIfMissing(
+    targetDir,
+    'public/_redirects',
+    FEED_REDIRECTS.map((from) => `${from} /rss.xml 301`).join('\n') + '\n'
+  );
+}
+
+/**
+ * Configures a scaffolded project for a hosting target: installs the adapter,
+ * sets output/adapter in astro.config.mjs and writes the host's config file.
+ * Static projects need none of this and are left as they are.
+ */
+export function applyDeployTarget(
+  targetDir: string,
+  target: DeployTarget,
+  options: { projectName: string; packageManager: PackageManager }
+): void {
+  if (target === 'static') return;
+
+  configureAstroAdapter(targetDir, target);
+  addAdapterDependency(targetDir, target);
+
+  switch (target) {
+    case 'vercel':
+      writeVercelConfig(targetDir);
+      break;
+    case 'netlify':
+      writeNetlifyConfig(targetDir, options.packageManager);
+      break;
+    case 'cloudflare':
+      writeCloudflareConfig(targetDir, options.projectName);
+      break;
+    case 'node':
+      break;
+  }
+}
@@ -2,6 +2,8 @@ import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'node:fs';
 import { join } from 'node:path';
 import type { PageLayout } from '../types.js';
 
+export const PAGE_LAYOUTS: PageLayout[] = ['page', 'landing'];
+
 /**
  * Converts a page slug to a display title
  * e.g., 'about-us' -> 'About Us'
@@ -1,9 +1,10 @@
 import * as p from '@clack/prompts';
 import pc from 'picocolors';
-import type { PackageManager, PageLayout, PromptAnswers } from './types.js';
+import type { DeployTarget, PackageManager, PageLayout, PromptAnswers } from './types.js';
 import type { ComponentSelection, ComponentRegistry, ComponentSelectionMode } from './registry/types.js';
-import { validateProjectName, toValidProjectName } from './utils/validate.js';
-import { detectPackageManager } from './utils/package-manager.js';
+import type { TemplateSource } from './utils/template-source.js';
+import { validateProjectName, toValidProjectName, RESERVED_PAGE_NAMES } from './utils/validate.js';
+import { detectPackageManager, getInstallCommand } from './utils/package-manager.js';
 import { fetchRegistry } from './registry/fetcher.js';
 import { getComponentsByCategory, resolveDependencies, getSelectionStats } from './registry/resolver.js';
 
@@ -13,6 +14,11 @@ interface PromptDefaults {
   componentSelection?: ComponentSelection;
   i18n?: boolean;
   pages?: boolean;
+  // Answers supplied by a preset
+  pageNames?: string[];
+  pageLayout?: PageLayout;
+  packageManager?: PackageManager;
+  deploy?: DeployTarget;
 }
 
 /**
@@ -26,7 +32,7 @@ function parsePageNames(input: string): string[] {
     .map((name) => name.trim().toLowerCase())
     .filter((name) => name.length > 0)
     .map((name) => name.replace(/[^a-z0-9-]/g, '-').replace(/-+/g, '-').replace(/^-|-$/g, ''))
-    .filter((name) => name.length > 0 && !['index', 'blog', '404', 'rss'].includes(name));
+    .filter((name) => name.length > 0 && !RESERVED_PAGE_NAMES.includes(name));
 }
 
 /**
@@ -147,7 +153,8 @@ async function promptComponents(registry: ComponentRegistry): Promise<string[]>
  * Gets component selection from user prompts
  */
 async function getComponentSelection(
-  defaultSelection?: ComponentSelection
+  defaultSelection?: ComponentSelection,
+  source?: TemplateSource
 ): Promise<ComponentSelection> {
   if (defaultSelection) {
     return defaultSelection;
@@ -155,7 +162,7 @@ async function getComponentSelection(
 
   let registry: ComponentRegistry;
   try {
-    registry = await fetchRegistry();
+    registry = await fetchRegistry(source);
   } catch {
     // Fallback to simple yes/no if registry unavailable
     const useComponents = await p.select({
@@ -218,7 +225,10 @@ async function getComponentSelection(
   }
 }
 
-export async function runPrompts(defaults: PromptDefaults = {}): Promise<PromptAnswers | symbol> {
+export async function runPrompts(
+  defaults: PromptDefaults = {},
+  source?: TemplateSource
+): Promise<PromptAnswers | symbol> {
   const detectedPm = detectPackageManager();
 
   const answers = await p.group(
@@ -256,7 +266,7 @@ export async function runPrompts(defaults: PromptDefaults = {}): Promise<PromptA
                 initialValue: false,
               }),
 
-      componentSelection: () => getComponentSelection(defaults.componentSelection),
+      componentSelection: () => getComponentSelection(defaults.componentSelection, source),
 
       i18n:
         defaults.i18n !== undefined
@@ -301,7 +311,9 @@ export async function runPrompts(defaults: PromptDefaults = {}): Promise<PromptA
               }),
 
       pageNames: ({ results }) =>
-        results.generatePages
+        results.generatePages && defaults.pageNames?.length
+          ? Promise.resolve(defaults.pageNames.join(','))
+          : results.generatePages
           ? p.text({
               message: 'Enter page names (comma-separated):',
               placeholder: 'about, pricing, faq, contact',
@@ -315,7 +327,9 @@ export async function runPrompts(defaults: PromptDefaults = {}): Promise<PromptA
           : Promise.resolve(''),
 
       pageLayout: ({ results }) =>
-        results.generatePages
+        results.generatePages && defaults.pageLayout
+          ? Promise.resolve(results.demo ? defaults.pageLayout : 'page' as PageLayout)
+          : results.generatePages
           ? results.demo
             ? p.select({
                 message: 'Select layout for pages:',
@@ -336,33 +350,70 @@ export async function runPrompts(defaults: PromptDefaults = {}): Promise<PromptA
             : Promise.resolve('page' as PageLayout) // Force PageLayout when demo=No
           : Promise.resolve('page' as PageLayout),
 
+      deploy: () =>
+        defaults.deploy
+          ? Promise.resolve(defaults.deploy)
+          : p.select({
+              message: 'Where will you deploy?',
+              options: [
+                {
+                  value: 'static' as DeployTarget,
+                  label: 'Static',
+                  hint: 'Plain HTML in dist/, any host',
+                },
+                {
+                  value: 'vercel' as DeployTarget,
+                  label: 'Vercel',
+                  hint: 'Adds @astrojs/vercel and vercel.json',
+                },
+                {
+                  value: 'netlify' as DeployTarget,
+                  label: 'Netlify',
+                  hint: 'Adds @astrojs/netlify and netlify.toml',
+                },
+                {
+                  value: 'cloudflare' as DeployTarget,
+                  label: 'Cloudflare',
+                  hint: 'Adds @astrojs/cloudflare and wrangler.toml',
+                },
+                {
+                  value: 'node' as DeployTarget,
+                  label: 'Node.js',
+                  hint: 'Standalone server with @astrojs/node',
+                },
+              ],
+              initialValue: 'static' as DeployTarget,
+            }),
+
       packageManager: () =>
-        p.select({
-          message: 'Which package manager?',
-          options: [
-            {
-              value: 'pnpm' as PackageManager,
-              label: 'pnpm',
-              hint: detectedPm === 'pnpm' ? 'detected' : 'recommended',
-            },
-            {
-              value: 'npm' as PackageManager,
-              label: 'npm',
-              hint: detectedPm === 'npm' ? 'detected' : undefined,
-            },
-            {
-              value: 'yarn' as PackageManager,
-              label: 'yarn',
-              hint: detectedPm === 'yarn' ? 'detected' : undefined,
-            },
-            {
-              value: 'bun' as PackageManager,
-              label: 'bun',
-              hint: detectedPm === 'bun' ? 'detected' : undefined,
-            },
-          ],
-          initialValue: detectedPm,
-        }),
+        defaults.packageManager
+          ? Promise.resolve(defaults.packageManager)
+          : p.select({
+              message: 'Which package manager?',
+              options: [
+                {
+                  value: 'pnpm' as PackageManager,
+                  label: 'pnpm',
+                  hint: detectedPm === 'pnpm' ? 'detected' : 'recommended',
+                },
+                {
+                  value: 'npm' as PackageManager,
+                  label: 'npm',
+                  hint: detectedPm === 'npm' ? 'detected' : undefined,
+                },
+                {
+                  value: 'yarn' as PackageManager,
+                  label: 'yarn',
+                  hint: detectedPm === 'yarn' ? 'detected' : undefined,
+                },
+                {
+                  value: 'bun' as PackageManager,
+                  label: 'bun',
+                  hint: detectedPm === 'bun' ? 'detected' : undefined,
+                },
+              ],
+              initialValue: detectedPm,
+            }),
     },
     {
       onCancel: () => {
@@ -379,21 +430,50 @@ export async function runPrompts(defaults: PromptDefaults = {}): Promise<PromptA
     i18n: answers.i18n as boolean,
     pages: parsePageNames(answers.pageNames as string),
     pageLayout: (answers.pageLayout as PageLayout) || 'page',
+    deploy: answers.deploy as DeployTarget,
     packageManager: answers.packageManager as PackageManager,
   };
 }
 
+/**
+ * Asks for the name to save a preset under (for --save-preset without a value)
+ */
+export async function promptPresetName(): Promise<string> {
+  const result = await p.text({
+    message: 'Save these choices as a preset named:',
+    placeholder: 'agency',
+    validate: (value) => {
+      if (!value.trim()) return 'Please enter a preset name or file path';
+    },
+  });
+
+  if (p.isCancel(result)) {
+    p.cancel('Operation cancelled.');
+    process.exit(0);
+  }
+
+  return result.trim();
+}
+
+/**
+ * Checks if prompts can be shown (stdin is a terminal)
+ */
+export function isInteractive(): boolean {
+  return Boolean(process.stdin.isTTY);
+}
+
 export function showIntro(): void {
   console.log();
   p.intro(pc.bgCyan(pc.black(' Create Velocity ')));
 }
 
-export function showOutro(projectName: string, packageManager: PackageManager): void {
+export function showOutro(projectName: string, packageManager: PackageManager, installed = true): void {
   const runCmd = packageManager === 'npm' ? 'npm run' : packageManager;
 
   p.note(
     [
       `cd ${projectName}`,
+      ...(installed ? [] : [getInstallCommand(packageManager)]),
       `${runCmd} dev`,
     ].join('\n'),
     'Next steps'
@@ -1,33 +1,50 @@
 /**
  * Registry Fetcher
- * Fetches the component registry from GitHub
+ * Fetches the component registry from the template source
  */
 
 import type { ComponentRegistry } from './types.js';
+import type { TemplateSource } from '../utils/template-source.js';
+import { fetchTemplateFile, getDefaultTemplateSource } from '../utils/template-source.js';
+import { isOfflineMode, readCachedRegistry } from '../utils/template-cache.js';
 
-const REGISTRY_URL = 'https://raw.githubusercontent.com/southwellmedia/velocity/main/component-registry.json';
+const REGISTRY_FILENAME = 'component-registry.json';
 
-let cachedRegistry: ComponentRegistry | null = null;
+// Keyed by template source, so forks don't share the official registry
+const cachedRegistries = new Map<string, ComponentRegistry>();
 
 /**
- * Fetches the component registry from GitHub
+ * Fetches the component registry from the template source (official template by default)
+ * Falls back to the locally cached template's registry when offline or unreachable
  * Results are cached for the duration of the process
  */
-export async function fetchRegistry(): Promise<ComponentRegistry> {
-  if (cachedRegistry) {
-    return cachedRegistry;
+export async function fetchRegistry(
+  source: TemplateSource = getDefaultTemplateSource()
+): Promise<ComponentRegistry> {
+  const cached = cachedRegistries.get(source.input);
+  if (cached) {
+    return cached;
   }
 
-  try {
-    const response = await fetch(REGISTRY_URL);
-
-    if (!response.ok) {
-      throw new Error(`Failed to fetch registry: ${response.status} ${response.statusText}`);
+  if (isOfflineMode() && source.provider !== 'local') {
+    const registry = readCachedRegistry(source);
+    if (!registry) {
+      throw new Error(`No cached component registry for ${source.input}. Run \`pnpm create velocity-astro cache prefetch\` while online first.`);
     }
+    cachedRegistries.set(source.input, registry);
+    return registry;
+  }
 
-    cachedRegistry = await response.json() as ComponentRegistry;
-    return cachedRegistry;
+  try {
+    const registry = JSON.parse(await fetchTemplateFile(source, REGISTRY_FILENAME)) as ComponentRegistry;
+    cachedRegistries.set(source.input, registry);
+    return registry;
   } catch (error) {
+    const registry = readCachedRegistry(source);
+    if (registry) {
+      cachedRegistries.set(source.input, registry);
+      return registry;
+    }
     throw new Error(
       `Could not fetch component registry. Please check your internet connection.\n${error instanceof Error ? error.message : ''}`
     );
@@ -35,19 +52,14 @@ export async function fetchRegistry(): Promise<ComponentRegistry> {
 }
 
 /**
- * Fetches a single file from the velocity repository
+ * Fetches a single file from the template source
  */
-export async function fetchComponentFile(filePath: string): Promise<string> {
-  const url = `https://raw.githubusercontent.com/southwellmedia/velocity/main/${filePath}`;
-
+export async function fetchComponentFile(
+  filePath: string,
+  source: TemplateSource = getDefaultTemplateSource()
+): Promise<string> {
   try {
-    const response = await fetch(url);
-
-    if (!response.ok) {
-      throw new Error(`Failed to fetch file: ${response.status} ${response.statusText}`);
-    }
-
-    return response.text();
+    return await fetchTemplateFile(source, filePath);
   } catch (error) {
     throw new Error(
       `Could not fetch file: ${filePath}\n${error instanceof Error ? error.message : ''}`
@@ -56,8 +68,8 @@ export async function fetchComponentFile(filePath: string): Promise<string> {
 }
 
 /**
- * Clears the cached registry
+ * Clears the cached registries
  */
 export function clearRegistryCache(): void {
-  cachedRegistry = null;
+  cachedRegistries.clear();
 }
@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import type { ComponentEntry, ComponentRegistry } from './types.js';
+import { parseComponentSelectors, resolveDependencies, validateCategories } from './resolver.js';
+
+function component(category: string, subcategory?: string, dependencies: string[] = []): ComponentEntry {
+  return {
+    name: category,
+    category,
+    ...(subcategory ? { subcategory } : {}),
+    files: [],
+    dependencies: { components: dependencies, utilities: [] },
+    premium: false,
+  };
+}
+
+const registry: ComponentRegistry = {
+  version: '1.0.0',
+  categories: {
+    ui: { name: 'UI', description: '' },
+    patterns: { name: 'Patterns', description: '' },
+  },
+  utilities: {},
+  components: {
+    button: { ...component('ui', 'form'), files: ['src/components/ui/form/Button/Button.astro'] },
+    input: component('ui', 'form'),
+    dialog: component('ui', 'overlay'),
+    'contact-form': component('patterns', undefined, ['button']),
+  },
+};
+
+describe('validateCategories', () => {
+  it('accepts categories and category/subcategory selectors', () => {
+    expect(validateCategories(['ui', 'ui/form', 'patterns'], registry)).toEqual({ valid: true, invalid: [] });
+  });
+
+  it('rejects unknown categories and subcategories', () => {
+    expect(validateCategories(['hero', 'ui/media'], registry)).toEqual({ valid: false, invalid: ['hero', 'ui/media'] });
+  });
+});
+
+describe('parseComponentSelectors', () => {
+  it('selects individual components', () => {
+    expect(parseComponentSelectors(['button', 'dialog'], registry)).toEqual({
+      selection: { mode: 'individual', components: ['button', 'dialog'] },
+      unknown: [],
+    });
+  });
+
+  it('mixes categories, subcategories and components', () => {
+    expect(parseComponentSelectors(['patterns', 'ui/form', 'dialog'], registry).selection).toEqual({
+      mode: 'categories',
+      categories: ['patterns', 'ui/form'],
+      components: ['dialog'],
+    });
+  });
+
+  it('reports unknown names with the closest known name', () => {
+    expect(parseComponentSelectors(['buton', 'ui/fom', 'carousel'], registry).unknown).toEqual([
+      { name: 'buton', suggestion: 'button' },
+      { name: 'ui/fom', suggestion: 'ui/form' },
+      { name: 'carousel', suggestion: undefined },
+    ]);
+  });
+});
+
+describe('resolveDependencies', () => {
+  it('resolves subcategory selectors and components together', () => {
+    const { components } = resolveDependencies(
+      { mode: 'categories', categories: ['ui/form'], components: ['dialog'] },
+      registry
+    );
+    expect(components.sort()).toEqual(['button', 'dialog', 'input']);
+  });
+
+  it('pulls in component dependencies', () => {
+    const { components, files } = resolveDependencies({ mode: 'individual', components: ['contact-form'] }, registry);
+    expect(components.sort()).toEqual(['button', 'contact-form']);
+    expect(files).toContain('src/components/ui/form/Button/Button.astro');
+  });
+});
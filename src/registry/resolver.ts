@@ -4,6 +4,22 @@
  */
 
 import type { ComponentRegistry, ComponentSelection, ResolvedComponents } from './types.js';
+import { findClosest } from '../utils/suggest.js';
+
+/**
+ * Checks if a component belongs to a category ID or "category/subcategory" selector
+ */
+export function matchesCategory(
+  componentId: string,
+  selector: string,
+  registry: ComponentRegistry
+): boolean {
+  const component = registry.components[componentId];
+  if (!component) return false;
+
+  const [category, subcategory] = selector.split('/', 2);
+  return component.category === category && (!subcategory || component.subcategory === subcategory);
+}
 
 /**
  * Resolves dependencies for requested components
@@ -31,10 +47,10 @@ export function resolveDependencies(
 
     case 'categories':
       if (selection.categories) {
-        requestedComponents = Object.entries(registry.components)
-          .filter(([, comp]) => selection.categories!.includes(comp.category))
-          .map(([id]) => id);
+        requestedComponents = Object.keys(registry.components)
+          .filter((id) => selection.categories!.some((selector) => matchesCategory(id, selector, registry)));
       }
+      requestedComponents.push(...(selection.components || []));
       break;
 
     case 'individual':
@@ -148,13 +164,18 @@ export function validateComponents(
 }
 
 /**
- * Validates that all categories exist in the registry
+ * Validates that all categories (or "category/subcategory" selectors) exist in the registry
  */
 export function validateCategories(
   categoryIds: string[],
   registry: ComponentRegistry
 ): { valid: boolean; invalid: string[] } {
-  const invalid = categoryIds.filter((id) => !registry.categories[id]);
+  const invalid = categoryIds.filter((id) => {
+    const [category, subcategory] = id.split('/', 2);
+    if (!registry.categories[category!]) return true;
+    return Boolean(subcategory) &&
+      !Object.values(registry.components).some((c) => c.category === category && c.subcategory === subcategory);
+  });
   return {
     valid: invalid.length === 0,
     invalid,
@@ -183,3 +204,43 @@ export function getSelectionStats(
     categories: [...categories],
   };
 }
+
+/**
+ * Splits a mixed list of category IDs, "category/subcategory" selectors and
+ * component IDs into a selection. Names matching nothing in the registry are
+ * returned as unknown, with the closest known name as a suggestion.
+ */
+export function parseComponentSelectors(
+  names: string[],
+  registry: ComponentRegistry
+): { selection: ComponentSelection; unknown: { name: string; suggestion?: string }[] } {
+  const categorySelectors = names.filter((name) => name.includes('/') || registry.categories[name]);
+  const componentIds = names.filter((name) => !categorySelectors.includes(name));
+
+  const invalid = [
+    ...validateCategories(categorySelectors, registry).invalid,
+    ...validateComponents(componentIds, registry).invalid,
+  ];
+
+  const known = [
+    ...Object.keys(registry.categories),
+    ...new Set(
+      Object.values(registry.components)
+        .filter((c) => c.subcategory)
+        .map((c) => `${c.category}/${c.subcategory}`)
+    ),
+    ...Object.keys(registry.components),
+  ];
+  const unknown = names
+    .filter((name) => invalid.includes(name))
+    .map((name) => ({ name, suggestion: findClosest(name, known) }));
+
+  const categories = categorySelectors.filter((name) => !invalid.includes(name));
+  const components = componentIds.filter((name) => !invalid.includes(name));
+
+  const selection: ComponentSelection = categories.length > 0
+    ? { mode: 'categories', categories, ...(components.length > 0 ? { components } : {}) }
+    : { mode: 'individual', components };
+
+  return { selection, unknown };
+}
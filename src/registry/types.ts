@@ -40,7 +40,9 @@ export type ComponentSelectionMode = 'none' | 'categories' | 'individual' | 'all
 
 export interface ComponentSelection {
   mode: ComponentSelectionMode;
+  // Category IDs or "category/subcategory" selectors
   categories?: string[];
+  // Component IDs (in 'categories' mode, picked in addition to the categories)
   components?: string[];
 }
 
@@ -1,22 +1,26 @@
-import { existsSync, mkdirSync, readdirSync, copyFileSync, readFileSync, writeFileSync, rmSync, statSync } from 'node:fs';
-import { join, dirname, relative } from 'node:path';
+import { existsSync, mkdirSync, readdirSync, copyFileSync, readFileSync, writeFileSync, rmSync, cpSync } from 'node:fs';
+import { join, dirname } from 'node:path';
 import * as p from '@clack/prompts';
 import { execa } from 'execa';
-import { downloadTemplate } from 'giget';
-import type { ScaffoldOptions } from './types.js';
-import type { ComponentSelection, ResolvedComponents } from './registry/types.js';
+import type { DeployTarget, ScaffoldOptions } from './types.js';
+import type { ComponentRegistry, ComponentSelection, ResolvedComponents } from './registry/types.js';
+import type { TemplateSource } from './utils/template-source.js';
 import { getI18nTemplatePath, getBaseTemplatePath } from './template.js';
 import { getInstallCommand } from './utils/package-manager.js';
 import { initGit } from './utils/git.js';
 import { showSuccess, showWarning } from './prompts.js';
 import { generatePages } from './features/pages.js';
+import { applyDeployTarget, configureAstroAdapter, DEPLOY_TARGET_LABELS } from './features/deploy.js';
 import { fetchRegistry } from './registry/fetcher.js';
 import { resolveDependencies } from './registry/resolver.js';
 import { createInitialConfig, writeVelocityConfig } from './utils/velocity-config.js';
 import { readJson } from './utils/fs.js';
-
-// GitHub repository for the Velocity template
-const TEMPLATE_REPO = 'github:southwellmedia/velocity';
+import { readManifest, createFallbackManifest } from './utils/manifest.js';
+import { expandPaths } from './utils/diff.js';
+import { writeTemplateBase } from './utils/template-base.js';
+import { createStagingDir } from './utils/staging.js';
+import { parseTemplateSource, describeTemplateSource, DEFAULT_TEMPLATE_SOURCE } from './utils/template-source.js';
+import { fetchTemplate, isOfflineMode } from './utils/template-cache.js';
 
 // Files/directories to remove after download
 const CLEANUP_ITEMS = [
@@ -29,7 +33,7 @@ const CLEANUP_ITEMS = [
 
 // Demo-specific content to remove when --demo is false
 // Includes both base paths and i18n paths to handle all scenarios
-const DEMO_CONTENT = [
+export const DEMO_CONTENT = [
   // Landing page components
   'src/components/landing',
   'src/components/hero',
@@ -54,7 +58,7 @@ const DEMO_CONTENT = [
 
 // Optional component directories (for removal when mode='none')
 // Note: layout, seo, landing, blog are core template - not optional
-const OPTIONAL_COMPONENT_DIRS = [
+export const OPTIONAL_COMPONENT_DIRS = [
   'src/components/ui',
   'src/components/patterns',
   'src/components/hero',
@@ -213,6 +217,28 @@ function applyI18nOverlay(targetDir: string): void {
   copyTemplateFiles(i18nTemplate, targetDir);
 }
 
+/**
+ * Applies the CLI's bundled overlays to a downloaded template the same way
+ * scaffold does, so upgrades compare projects against what they were built from
+ */
+export function applyTemplateOverlays(
+  dir: string,
+  features: { i18n: boolean; demo: boolean; deploy?: DeployTarget }
+): void {
+  if (features.i18n) {
+    applyI18nOverlay(dir);
+  }
+
+  if (!features.demo) {
+    removeItems(dir, DEMO_CONTENT);
+    applyBaseTemplate(dir);
+  }
+
+  if (features.deploy) {
+    configureAstroAdapter(dir, features.deploy);
+  }
+}
+
 /**
  * Creates empty content directories with .gitkeep files
  */
@@ -235,7 +261,8 @@ function createContentDirectories(targetDir: string): void {
  */
 async function applyComponentSelection(
   targetDir: string,
-  selection: ComponentSelection
+  selection: ComponentSelection,
+  source: TemplateSource
 ): Promise<void> {
   // Handle 'all' mode - keep everything
   if (selection.mode === 'all') {
@@ -251,7 +278,11 @@ async function applyComponentSelection(
   // For 'categories' and 'individual' modes, we need the registry
   let resolved: ResolvedComponents;
   try {
-    const registry = await fetchRegistry();
+    // Prefer the registry shipped with the downloaded template
+    const registryPath = join(targetDir, 'component-registry.json');
+    const registry = existsSync(registryPath)
+      ? readJson<ComponentRegistry>(registryPath)
+      : await fetchRegistry(source);
     resolved = resolveDependencies(selection, registry);
   } catch {
     // If registry fetch fails, fall back to keeping all components
@@ -276,39 +307,50 @@ async function applyComponentSelection(
 }
 
 /**
- * Main scaffold function
+ * Builds the project into `dir` (steps 1-6). Throws on the first failing step.
  *
  * IMPORTANT: Step order matters for option combinations
  * - i18n overlay is applied BEFORE demo removal
  * - This ensures demo=Yes + i18n=Yes gets full translated demo
  * - And demo=No + i18n=Yes gets i18n routing without demo pages
  */
-export async function scaffold(options: ScaffoldOptions): Promise<void> {
-  const { projectName, targetDir, demo, componentSelection, i18n, pages, pageLayout, packageManager } = options;
-  const spinner = p.spinner();
+async function buildProject(
+  options: ScaffoldOptions,
+  dir: string,
+  spinner: ReturnType<typeof p.spinner>
+): Promise<void> {
+  const { projectName, targetDir, demo, componentSelection, i18n, pages, pageLayout, deploy, packageManager } = options;
+  const source = parseTemplateSource(options.template ?? DEFAULT_TEMPLATE_SOURCE);
 
-  // Step 1: Download base template from GitHub
-  spinner.start('Downloading template from GitHub...');
+  // Step 1: Download base template (or copy it from the cache with --offline)
+  spinner.start(
+    isOfflineMode()
+      ? 'Copying template from cache...'
+      : `Downloading template from ${describeTemplateSource(source)}...`
+  );
 
   try {
-    await downloadTemplate(TEMPLATE_REPO, {
-      dir: targetDir,
-      force: true,
-    });
-    removeItems(targetDir, CLEANUP_ITEMS);
+    await fetchTemplate(source, dir);
+    removeItems(dir, CLEANUP_ITEMS);
     spinner.stop('Template downloaded');
   } catch (error) {
-    spinner.stop('Failed to download template');
+    spinner.stop(isOfflineMode() ? 'No cached template' : 'Failed to download template');
+    if (isOfflineMode()) throw error;
     throw new Error(
-      `Could not download template from GitHub. Please check your internet connection.\n${error instanceof Error ? error.message : ''}`
+      `Could not download template from ${source.input}. Please check the source and your internet connection.\n${error instanceof Error ? error.message : ''}`
     );
   }
 
+  // Overwriting a non-empty directory: keep the files the template doesn't replace
+  if (existsSync(targetDir)) {
+    cpSync(targetDir, dir, { recursive: true, force: false });
+  }
+
   // Step 2: Apply component selection
   if (componentSelection.mode !== 'all') {
     spinner.start('Configuring components...');
     try {
-      await applyComponentSelection(targetDir, componentSelection);
+      await applyComponentSelection(dir, componentSelection, source);
       spinner.stop('Components configured');
     } catch (error) {
       spinner.stop('Failed to configure components');
@@ -321,7 +363,7 @@ export async function scaffold(options: ScaffoldOptions): Promise<void> {
   if (i18n) {
     spinner.start('Adding i18n support...');
     try {
-      applyI18nOverlay(targetDir);
+      applyI18nOverlay(dir);
       spinner.stop('i18n support added');
     } catch (error) {
       spinner.stop('Failed to add i18n support');
@@ -333,9 +375,9 @@ export async function scaffold(options: ScaffoldOptions): Promise<void> {
   // This runs after i18n overlay so it can remove i18n demo pages if needed
   if (!demo) {
     spinner.start('Configuring minimal template...');
-    removeItems(targetDir, DEMO_CONTENT);
-    applyBaseTemplate(targetDir);
-    createContentDirectories(targetDir);
+    removeItems(dir, DEMO_CONTENT);
+    applyBaseTemplate(dir);
+    createContentDirectories(dir);
     spinner.stop('Minimal template configured');
   }
 
@@ -343,7 +385,7 @@ export async function scaffold(options: ScaffoldOptions): Promise<void> {
   if (pages.length > 0) {
     spinner.start(`Generating ${pages.length} starter page${pages.length > 1 ? 's' : ''}...`);
     try {
-      const generatedFiles = await generatePages(targetDir, pages, pageLayout, i18n);
+      const generatedFiles = await generatePages(dir, pages, pageLayout, i18n);
       spinner.stop(`Generated ${generatedFiles.length} page file${generatedFiles.length > 1 ? 's' : ''}`);
     } catch (error) {
       spinner.stop('Failed to generate pages');
@@ -351,55 +393,95 @@ export async function scaffold(options: ScaffoldOptions): Promise<void> {
     }
   }
 
+  // Step 5.5: Configure the deployment target (after i18n, which replaces astro.config.mjs)
+  if (deploy !== 'static') {
+    spinner.start(`Configuring ${DEPLOY_TARGET_LABELS[deploy]} deployment...`);
+    try {
+      applyDeployTarget(dir, deploy, { projectName, packageManager });
+      spinner.stop(`Configured for ${DEPLOY_TARGET_LABELS[deploy]}`);
+    } catch (error) {
+      spinner.stop('Failed to configure deployment');
+      throw error;
+    }
+  }
+
   // Step 6: Update package.json
   spinner.start('Configuring project...');
   try {
-    updatePackageJson(targetDir, projectName);
+    updatePackageJson(dir, projectName);
     spinner.stop('Project configured');
   } catch (error) {
     spinner.stop('Failed to configure project');
     throw error;
   }
 
-  // Step 6.5: Write .velocity.json
+  // Step 6.5: Write .velocity.json and snapshot pristine framework files
   try {
     let templateVersion = '0.1.0-beta';
-    const manifestPath = join(targetDir, 'velocity-manifest.json');
-    const pkgPath = join(targetDir, 'package.json');
+    const manifest = readManifest(dir);
+    const pkgPath = join(dir, 'package.json');
 
-    if (existsSync(manifestPath)) {
-      const manifest = readJson<{ version?: string }>(manifestPath);
-      if (manifest.version) templateVersion = manifest.version;
+    if (manifest?.version) {
+      templateVersion = manifest.version;
     } else if (existsSync(pkgPath)) {
       const pkg = readJson<{ version?: string }>(pkgPath);
       if (pkg.version) templateVersion = pkg.version;
     }
 
     const velocityConfig = createInitialConfig(options, templateVersion);
-    writeVelocityConfig(targetDir, velocityConfig);
+    writeVelocityConfig(dir, velocityConfig);
+
+    // Base for three-way merges during future upgrades
+    const safeFiles = (manifest ?? createFallbackManifest(templateVersion)).files.safe;
+    writeTemplateBase(dir, dir, expandPaths(safeFiles, dir));
   } catch {
     // Non-fatal — project still usable without .velocity.json
   }
+}
+
+/**
+ * Main scaffold function
+ *
+ * The project is built in a staging directory next to the target and only moved
+ * into place once every step has succeeded. A failure or Ctrl-C before then
+ * removes the staging directory and leaves the target untouched.
+ */
+export async function scaffold(options: ScaffoldOptions): Promise<void> {
+  const { projectName, targetDir, packageManager, git, install } = options;
+  const spinner = p.spinner();
+  const staging = createStagingDir(targetDir);
+
+  try {
+    await buildProject(options, staging.dir, spinner);
+    staging.commit();
+  } catch (error) {
+    staging.rollback();
+    throw error;
+  }
 
   // Step 7: Initialize git
-  spinner.start('Initializing git repository...');
-  const gitInitialized = await initGit(targetDir);
-  if (gitInitialized) {
-    spinner.stop('Git repository initialized');
-  } else {
-    spinner.stop('Git not available, skipping');
+  if (git) {
+    spinner.start('Initializing git repository...');
+    const gitInitialized = await initGit(targetDir);
+    if (gitInitialized) {
+      spinner.stop('Git repository initialized');
+    } else {
+      spinner.stop('Git not available, skipping');
+    }
   }
 
   // Step 8: Install dependencies
-  spinner.start(`Installing dependencies with ${packageManager}...`);
-  try {
-    const installCmd = getInstallCommand(packageManager);
-    const [cmd, ...args] = installCmd.split(' ');
-    await execa(cmd!, args, { cwd: targetDir });
-    spinner.stop('Dependencies installed');
-  } catch {
-    spinner.stop('Failed to install dependencies');
-    showWarning(`Run "${getInstallCommand(packageManager)}" manually to install dependencies`);
+  if (install) {
+    spinner.start(`Installing dependencies with ${packageManager}...`);
+    try {
+      const installCmd = getInstallCommand(packageManager);
+      const [cmd, ...args] = installCmd.split(' ');
+      await execa(cmd!, args, { cwd: targetDir });
+      spinner.stop('Dependencies installed');
+    } catch {
+      spinner.stop('Failed to install dependencies');
+      showWarning(`Run "${getInstallCommand(packageManager)}" manually to install dependencies`);
+    }
   }
 
   showSuccess(`Project "${projectName}" created successfully!`);
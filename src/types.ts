@@ -5,14 +5,26 @@ export interface CliOptions {
   demo?: boolean;
   components?: string | boolean;
   i18n?: boolean;
-  pages?: boolean;
+  pages?: string | boolean;
+  pm?: string;
+  git?: boolean;
+  install?: boolean;
+  deploy?: string;
   help?: boolean;
   version?: boolean;
   yes?: boolean;
+  undo?: string;
+  base?: string;
+  to?: string;
+  template?: string;
+  offline?: boolean;
+  preset?: string;
 }
 
 export type PageLayout = 'page' | 'landing';
 
+export type DeployTarget = 'vercel' | 'netlify' | 'cloudflare' | 'node' | 'static';
+
 export interface ScaffoldOptions {
   projectName: string;
   targetDir: string;
@@ -22,6 +34,32 @@ export interface ScaffoldOptions {
   pages: string[];
   pageLayout: PageLayout;
   packageManager: PackageManager;
+  // Hosting target: adapter, astro.config.mjs output and host config file
+  deploy: DeployTarget;
+  // Initialize a git repository with an initial commit
+  git: boolean;
+  // Install dependencies after scaffolding
+  install: boolean;
+  // giget source or local directory (defaults to the official template)
+  template?: string;
+}
+
+/**
+ * Saved scaffold choices, loaded with --preset from a JSON or YAML file.
+ * Anything left out is prompted for (or defaulted with --yes).
+ */
+export interface ScaffoldPreset {
+  demo?: boolean;
+  // Same format as .velocity.json: all, none, categories:ui,patterns, individual:button,card
+  components?: string;
+  i18n?: boolean;
+  pages?: string[];
+  pageLayout?: PageLayout;
+  packageManager?: PackageManager;
+  deploy?: DeployTarget;
+  git?: boolean;
+  install?: boolean;
+  template?: string;
 }
 
 export type PackageManager = 'pnpm' | 'npm' | 'yarn' | 'bun';
@@ -33,6 +71,7 @@ export interface PromptAnswers {
   i18n: boolean;
   pages: string[];
   pageLayout: PageLayout;
+  deploy: DeployTarget;
   packageManager: PackageManager;
 }
 
@@ -44,6 +83,19 @@ export interface VelocityConfig {
     demo: boolean;
     i18n: boolean;
     components: string;
+    // Missing for static projects and those created before --deploy
+    deploy?: DeployTarget;
+  };
+  // Template source the project was created from, when not the official template
+  template?: string;
+  upgrade?: {
+    // Globs the upgrade never looks at
+    ignore?: string[];
+    // Globs the upgrade shows changes for but never writes
+    protect?: string[];
+    // Files the user chose to keep, keyed by path, with a hash of the upstream
+    // content they declined. Skipped again automatically until upstream changes.
+    skipped?: Record<string, string>;
   };
 }
 
@@ -53,30 +105,252 @@ export interface UpgradeManifest {
   files: {
     safe: string[];
     protected: string[];
+    // Files moved in this release (old path → new path)
+    renames?: Record<string, string>;
   };
   dependencies: {
-    update: Record<string, string>;
+    update: Record<string, DependencySpec>;
     remove: string[];
-    add: Record<string, string>;
+    add: Record<string, DependencySpec>;
   };
+  // package.json sections to merge from the template's package.json
+  merge?: PackageMergeSection[];
+  // Release notes (markdown), used when the template has no CHANGELOG.md
+  notes?: string;
   migrations: MigrationStep[];
 }
 
+export type DependencyField = 'dependencies' | 'devDependencies' | 'peerDependencies';
+
+/**
+ * A version range, optionally with the package.json field it belongs in
+ * (defaults to wherever the project already has it, else `dependencies`).
+ */
+export type DependencySpec = string | { version: string; field?: DependencyField };
+
+export type PackageMergeSection = 'scripts' | 'engines' | 'pnpm.overrides';
+
 export interface MigrationStep {
   title: string;
   description: string;
   pattern?: string;
+  // RegExp flags for `pattern` (e.g. "i", "m", "s")
+  flags?: string;
+  // Directories, files or globs to search (defaults to src/)
   searchPaths?: string[];
+  // Only search files with these extensions (e.g. [".astro", ".ts"])
+  extensions?: string[];
+  // Automatic fix applied to user files (after preview and confirmation)
+  transform?: MigrationTransform;
+  // Release that introduced the step (set when combining manifests)
+  version?: string;
 }
 
+/**
+ * Codemods a migration step can apply:
+ * - replace: regex replace; `replace` may use $1-style capture references
+ * - rename-import: rewrites a module specifier in import/export statements
+ * - rename-prop: renames an attribute on every usage of an Astro/JSX component
+ */
+export type MigrationTransform =
+  | { type: 'replace'; find: string; replace: string; flags?: string }
+  | { type: 'rename-import'; from: string; to: string }
+  | { type: 'rename-prop'; component: string; from: string; to: string };
+
 export interface UpgradeOptions {
   targetDir: string;
   dryRun: boolean;
   yes: boolean;
+  // Template version, tag or sha to upgrade to (defaults to latest)
+  to?: string;
+  // Show line-level diffs in dry-run mode
+  diff?: boolean;
+  // Print a JSON report to stdout instead of interactive output
+  json?: boolean;
+  // Accept, skip or defer each changed file individually
+  review?: boolean;
+  // Install, type-check and build after upgrading; roll back on failure
+  verify?: boolean;
+  // Apply on a new velocity/upgrade-v<version> branch and commit the changes
+  branch?: boolean;
+  // Switch to another template source (saved to .velocity.json)
+  template?: string;
+}
+
+export interface AdoptOptions {
+  targetDir: string;
+  dryRun: boolean;
+  yes: boolean;
+  // Template version to record instead of fingerprinting
+  base?: string;
+  // Template source the project was created from
+  template?: string;
+}
+
+export type CacheAction = 'list' | 'prefetch' | 'clear';
+
+export interface CacheOptions {
+  action: CacheAction;
+  // Template source to prefetch or clear (defaults to the official template; clear defaults to all)
+  template?: string;
+  // Version, tag or branch to prefetch (defaults to latest)
+  to?: string;
+}
+
+/**
+ * What `adopt` inferred about a project created before .velocity.json existed.
+ */
+export interface AdoptResult {
+  version: string;
+  // Framework files identical to that version's template, out of those compared
+  matched: number;
+  compared: number;
+  features: VelocityConfig['features'];
 }
 
+export interface UpgradeBackup {
+  id: string;
+  createdAt: string;
+  fromVersion: string;
+  toVersion: string;
+  files: BackupEntry[];
+}
+
+/**
+ * A template download kept in the local cache for offline scaffolding.
+ */
+export interface CachedTemplate {
+  // Template source it was downloaded from
+  source: string;
+  version: string;
+  // Ref that was requested, if any
+  ref?: string;
+  cachedAt: string;
+  // Directory holding the template files
+  dir: string;
+}
+
+export interface BackupEntry {
+  path: string;
+  // False if the upgrade created the file (restore deletes it)
+  existed: boolean;
+}
+
+/**
+ * Which side changed a file relative to the recorded template base:
+ * - template: only the new template differs (safe to replace)
+ * - local: only the user's copy differs (nothing to apply)
+ * - both: user and template both changed it (needs a merge)
+ * - unknown: no base was recorded, so local edits can't be detected
+ */
+export type FileChange = 'template' | 'local' | 'both' | 'unknown';
+
 export interface FileDiff {
   path: string;
   status: 'added' | 'modified' | 'unchanged' | 'removed';
   category: 'safe' | 'protected';
+  change?: FileChange;
+  // Previous location when the template renamed the file
+  from?: string;
+  // Skipped in an earlier upgrade and unchanged upstream since
+  skipped?: boolean;
+}
+
+/**
+ * How a package.json change was resolved:
+ * - applied: the template's value was written
+ * - unchanged: the project already had it
+ * - kept: the project's value is newer, so it was kept
+ * - conflict: the values can't be compared; the project's value was kept
+ */
+export type PackageChangeStatus = 'applied' | 'unchanged' | 'kept' | 'conflict';
+
+export interface DependencyChange {
+  name: string;
+  operation: 'update' | 'add' | 'remove';
+  field: DependencyField;
+  from: string | null;
+  to: string | null;
+  status: PackageChangeStatus;
+}
+
+export interface PackageFieldChange {
+  section: PackageMergeSection;
+  key: string;
+  from: string | null;
+  to: string;
+  status: PackageChangeStatus;
+}
+
+export interface MigrationMatch {
+  file: string;
+  // 1-based
+  line: number;
+  column: number;
+  // The matching line, trimmed
+  snippet: string;
+}
+
+export interface MigrationReport {
+  title: string;
+  description: string;
+  version?: string;
+  // True if a codemod handled the step
+  automated: boolean;
+  matches: MigrationMatch[];
+}
+
+export interface ChangelogEntry {
+  version: string;
+  date?: string;
+  // Markdown body of the release section
+  body: string;
+}
+
+export interface VerificationStep {
+  name: string;
+  command: string;
+  passed: boolean;
+}
+
+/**
+ * Outcome of `upgrade --verify`. `output` holds the failing step's output.
+ */
+export interface VerificationResult {
+  passed: boolean;
+  steps: VerificationStep[];
+  output?: string;
+  rolledBack: boolean;
+}
+
+/**
+ * Machine-readable summary of an upgrade (`upgrade --json`).
+ */
+export interface UpgradeReport {
+  currentVersion: string;
+  targetVersion: string;
+  releases: string[];
+  changelog: ChangelogEntry[];
+  dryRun: boolean;
+  applied: boolean;
+  files: FileDiff[];
+  dependencies: DependencyChange[];
+  packageFields: PackageFieldChange[];
+  migrations: MigrationReport[];
+  backup: string | null;
+  verification: VerificationResult | null;
+  // Branch the upgrade was committed to (--branch)
+  branch: string | null;
+}
+
+/**
+ * Result of `upgrade --check`.
+ */
+export interface UpgradeCheckResult {
+  currentVersion: string;
+  latestVersion: string;
+  outdated: boolean;
+  cliVersion: string;
+  minCliVersion: string;
+  cliOutdated: boolean;
 }
@@ -1,17 +1,152 @@
 import * as p from '@clack/prompts';
 import pc from 'picocolors';
-import type { FileDiff, MigrationStep, UpgradeManifest } from './types.js';
+import type {
+  FileDiff,
+  MigrationStep,
+  MigrationMatch,
+  UpgradeManifest,
+  UpgradeBackup,
+  UpgradeCheckResult,
+  DependencyChange,
+  PackageFieldChange,
+  PackageChangeStatus,
+  VerificationResult,
+  ChangelogEntry,
+} from './types.js';
 import { summarizeDiffs } from './utils/diff.js';
+import { createHunks } from './utils/unified-diff.js';
+import type { CodemodPlan } from './utils/migrations.js';
+
+export interface FilePreview {
+  path: string;
+  // Previous location for renamed files
+  from?: string;
+  before: string;
+  // Null when the new content can't be shown (binary files)
+  after: string | null;
+}
+
+export type ReviewDecision = 'accept' | 'skip' | 'defer';
+
+// When set, upgrade UI output is suppressed (e.g. for --json)
+let quiet = false;
 
 /**
- * Shows the upgrade intro with version info.
+ * Enables or disables quiet mode for all upgrade output.
+ */
+export function setQuietMode(enabled: boolean): void {
+  quiet = enabled;
+}
+
+function quietable<T extends unknown[]>(fn: (...args: T) => void): (...args: T) => void {
+  return (...args: T) => {
+    if (!quiet) fn(...args);
+  };
+}
+
+/**
+ * Clack logger that stays silent in quiet mode.
  */
-export function showUpgradeIntro(currentVersion: string, latestVersion: string): void {
+export const log = {
+  info: quietable(p.log.info),
+  success: quietable(p.log.success),
+  step: quietable(p.log.step),
+  message: quietable(p.log.message),
+  warn: quietable(p.log.warn),
+  error: quietable(p.log.error),
+};
+
+export const outro = quietable(p.outro);
+
+const intro = quietable((title: string) => {
   console.log();
-  p.intro(pc.bgCyan(pc.black(' Velocity Upgrade ')));
-  p.log.info(
+  p.intro(title);
+});
+
+/**
+ * Creates a clack spinner, or a no-op one in quiet mode.
+ */
+export function createSpinner(): ReturnType<typeof p.spinner> {
+  if (quiet) {
+    return { start: () => {}, stop: () => {}, message: () => {} };
+  }
+  return p.spinner();
+}
+
+/**
+ * Shows the upgrade intro with version info.
+ * When several releases are skipped, lists each one the upgrade steps through.
+ */
+export function showUpgradeIntro(
+  currentVersion: string,
+  targetVersion: string,
+  releases: string[] = []
+): void {
+  intro(pc.bgCyan(pc.black(' Velocity Upgrade ')));
+  log.info(
     `Current version: ${pc.dim(`v${currentVersion}`)}\n` +
-    `Latest version:  ${pc.green(`v${latestVersion}`)}`
+    `Target version:  ${pc.green(`v${targetVersion}`)}` +
+    (releases.length > 1 ? `\nReleases:        ${releases.map((v) => `v${v}`).join(pc.dim(' → '))}` : '')
+  );
+}
+
+// Lines shown per release before pointing at the full changelog
+const MAX_CHANGELOG_LINES = 25;
+
+/**
+ * Renders a line of changelog markdown for the terminal.
+ */
+function formatChangelogLine(line: string): string {
+  const heading = /^#{3,6}\s+(.*)$/.exec(line);
+  if (heading) return pc.bold(heading[1]!);
+
+  return line
+    .replace(/^(\s*)[-*]\s+/, '$1• ')
+    .replace(/\*\*([^*]+)\*\*/g, (_, text: string) => pc.bold(text))
+    .replace(/`([^`]+)`/g, (_, code: string) => pc.cyan(code));
+}
+
+/**
+ * Shows the template changelog for each release the upgrade covers.
+ */
+export function showChangelog(entries: ChangelogEntry[]): void {
+  if (entries.length === 0) return;
+
+  const sections = [...entries].reverse().map((entry) => {
+    const title = pc.green(`v${entry.version}`) + (entry.date ? pc.dim(` (${entry.date})`) : '');
+    const lines = entry.body.split('\n').filter((line, i, all) => line.trim() || all[i - 1]?.trim());
+    const shown = lines.slice(0, MAX_CHANGELOG_LINES).map(formatChangelogLine);
+    if (lines.length > shown.length) {
+      shown.push(pc.dim(`... ${lines.length - shown.length} more lines in the full changelog`));
+    }
+    return `${title}\n${shown.join('\n')}`;
+  });
+
+  log.message(pc.bold("What's new:") + '\n\n' + sections.join('\n\n'));
+}
+
+/**
+ * Shows the result of `upgrade --check`.
+ */
+export function showCheckResult(result: UpgradeCheckResult): void {
+  intro(pc.bgCyan(pc.black(' Velocity Check ')));
+  log.info(
+    `Project version: ${result.outdated ? pc.yellow(`v${result.currentVersion}`) : pc.green(`v${result.currentVersion}`)}\n` +
+    `Latest version:  ${pc.green(`v${result.latestVersion}`)}`
+  );
+
+  if (result.cliOutdated) {
+    log.warn(
+      pc.yellow(
+        `create-velocity-astro v${result.cliVersion} is too old for this release (requires >= ${result.minCliVersion}).`
+      )
+    );
+  }
+
+  outro(
+    result.outdated
+      ? pc.yellow(`Upgrade available. Run ${pc.cyan('upgrade')} to update.`)
+      : pc.green('Project is up to date.')
   );
 }
 
@@ -20,13 +155,18 @@ export function showUpgradeIntro(currentVersion: string, latestVersion: string):
  */
 export function showChangeSummary(
   diffs: FileDiff[],
-  manifest: UpgradeManifest
+  manifest: UpgradeManifest,
+  dependencies: DependencyChange[]
 ): void {
-  const { added, modified } = summarizeDiffs(diffs);
-  const depUpdated = Object.keys(manifest.dependencies.update).length;
-  const depRemoved = manifest.dependencies.remove.length;
-  const depAdded = Object.keys(manifest.dependencies.add).length;
-  const migrationCount = manifest.migrations.length;
+  const { added, modified, removed, renamed, needsMerge, customized, skipped, protectedChanges } =
+    summarizeDiffs(diffs);
+  const applied = dependencies.filter((d) => d.status === 'applied');
+  const depUpdated = applied.filter((d) => d.operation === 'update' && d.from !== null).length;
+  const depRemoved = applied.filter((d) => d.operation === 'remove').length;
+  const depAdded = applied.length - depUpdated - depRemoved;
+  const depKept = dependencies.filter((d) => d.status === 'kept' || d.status === 'conflict').length;
+  const codemodCount = manifest.migrations.filter((m) => m.transform).length;
+  const migrationCount = manifest.migrations.length - codemodCount;
 
   const lines: string[] = [];
 
@@ -36,6 +176,18 @@ export function showChangeSummary(
   if (added > 0) {
     lines.push(`  ${pc.green(`${added}`)} file${added !== 1 ? 's' : ''} added ${pc.dim('(new framework files)')}`);
   }
+  if (renamed > 0) {
+    lines.push(`  ${pc.cyan(`${renamed}`)} file${renamed !== 1 ? 's' : ''} moved ${pc.dim('(renamed in the template)')}`);
+  }
+  if (removed > 0) {
+    lines.push(`  ${pc.red(`${removed}`)} file${removed !== 1 ? 's' : ''} removed from the template ${pc.dim('(you choose whether to delete)')}`);
+  }
+  if (customized > 0) {
+    lines.push(`  ${pc.dim(`${customized}`)} customized file${customized !== 1 ? 's' : ''} kept ${pc.dim('(no upstream changes)')}`);
+  }
+  if (skipped > 0) {
+    lines.push(`  ${pc.dim(`${skipped}`)} file${skipped !== 1 ? 's' : ''} skipped ${pc.dim('(skipped in a previous upgrade, unchanged upstream)')}`);
+  }
   if (depUpdated > 0) {
     lines.push(`  ${pc.cyan(`${depUpdated}`)} dependenc${depUpdated !== 1 ? 'ies' : 'y'} updated`);
   }
@@ -45,44 +197,329 @@ export function showChangeSummary(
   if (depAdded > 0) {
     lines.push(`  ${pc.green(`${depAdded}`)} dependenc${depAdded !== 1 ? 'ies' : 'y'} added`);
   }
+  if (depKept > 0) {
+    lines.push(`  ${pc.dim(`${depKept}`)} dependenc${depKept !== 1 ? 'ies' : 'y'} kept ${pc.dim('(your version is newer or custom)')}`);
+  }
+  if (codemodCount > 0) {
+    lines.push(`  ${pc.green(`${codemodCount}`)} automatic migration${codemodCount !== 1 ? 's' : ''} ${pc.dim('(previewed before applying)')}`);
+  }
   if (migrationCount > 0) {
     lines.push(`  ${pc.yellow(`${migrationCount}`)} manual migration step${migrationCount !== 1 ? 's' : ''}`);
   }
 
   if (lines.length > 0) {
-    p.log.message(pc.bold('Changes to apply:') + '\n' + lines.join('\n'));
+    log.message(pc.bold('Changes to apply:') + '\n' + lines.join('\n'));
+  }
+
+  if (removed > 0) {
+    const files = diffs
+      .filter((d) => d.status === 'removed' && d.category === 'safe')
+      .map((d) => `  ${pc.red('D')} ${d.path}${d.change === 'local' ? pc.dim(' (customized)') : ''}`);
+    log.message(pc.bold('Removed from the template:') + '\n' + files.join('\n'));
+  }
+
+  if (protectedChanges > 0) {
+    const files = diffs
+      .filter((d) => d.category === 'protected' && d.status !== 'unchanged')
+      .map((d) => `  ${pc.dim(d.status === 'added' ? 'A' : d.status === 'removed' ? 'D' : 'M')} ${d.path}`);
+    log.info(
+      pc.bold(`${protectedChanges} protected file${protectedChanges !== 1 ? 's' : ''} changed upstream (left untouched):`) +
+      '\n' + files.join('\n')
+    );
+  }
+
+  if (needsMerge > 0) {
+    const files = diffs
+      .filter((d) => d.change === 'both' && d.category === 'safe' && !d.skipped)
+      .map((d) => `  ${pc.yellow('M')} ${d.path}`);
+    log.warn(
+      pc.bold(`${needsMerge} file${needsMerge !== 1 ? 's' : ''} changed both locally and upstream (will be merged):`) +
+      '\n' + files.join('\n')
+    );
   }
 }
 
 /**
  * Asks user to confirm the upgrade. Returns true to proceed.
  * In dry-run mode, shows what would happen without asking.
+ * When `onViewDiff` is given, the user can review the diff before deciding.
  */
-export async function confirmUpgrade(dryRun: boolean): Promise<boolean> {
+export async function confirmUpgrade(
+  dryRun: boolean,
+  yes: boolean,
+  onViewDiff?: () => void
+): Promise<boolean> {
   if (dryRun) {
-    p.log.info(pc.dim('Dry run — no changes will be made.'));
+    log.info(pc.dim('Dry run — no changes will be made.'));
     return false;
   }
 
-  const proceed = await p.confirm({
-    message: 'Proceed with upgrade?',
-    initialValue: true,
+  if (yes) return true;
+
+  while (true) {
+    const action = await p.select({
+      message: 'Proceed with upgrade?',
+      options: [
+        { value: 'proceed', label: 'Yes, apply changes' },
+        ...(onViewDiff ? [{ value: 'diff', label: 'View diff', hint: 'Review file and dependency changes' }] : []),
+        { value: 'cancel', label: 'No, cancel' },
+      ],
+      initialValue: 'proceed',
+    });
+
+    if (action === 'diff') {
+      onViewDiff?.();
+      continue;
+    }
+
+    if (p.isCancel(action) || action === 'cancel') {
+      p.cancel('Upgrade cancelled.');
+      return false;
+    }
+
+    return true;
+  }
+}
+
+/**
+ * Walks through each changed file and asks whether to apply it, skip it
+ * (remembered until upstream changes it again) or defer it to the next upgrade.
+ * Returns null if the user cancels.
+ */
+export async function reviewFiles(
+  previews: FilePreview[]
+): Promise<Map<string, ReviewDecision> | null> {
+  const decisions = new Map<string, ReviewDecision>();
+
+  for (const [index, preview] of previews.entries()) {
+    const label = preview.from ? `${preview.from} → ${preview.path}` : preview.path;
+
+    while (true) {
+      const action = await p.select({
+        message: `${pc.bold(label)} ${pc.dim(`(${index + 1}/${previews.length})`)}`,
+        options: [
+          { value: 'accept', label: 'Apply', hint: preview.before ? undefined : 'new file' },
+          { value: 'diff', label: 'View diff' },
+          { value: 'skip', label: 'Skip', hint: 'Keep your version until upstream changes it again' },
+          { value: 'defer', label: 'Defer', hint: 'Ask again on the next upgrade' },
+        ],
+        initialValue: 'accept',
+      });
+
+      if (p.isCancel(action)) {
+        p.cancel('Upgrade cancelled.');
+        return null;
+      }
+
+      if (action === 'diff') {
+        showFileDiffs([preview]);
+        continue;
+      }
+
+      decisions.set(preview.path, action as ReviewDecision);
+      break;
+    }
+  }
+
+  return decisions;
+}
+
+/**
+ * Renders colored unified diffs for each changed file.
+ */
+export function showFileDiffs(previews: FilePreview[]): void {
+  for (const preview of previews) {
+    const header = pc.bold(preview.path);
+
+    if (preview.after === null) {
+      log.message(`${header}\n${pc.dim('Binary file — not shown')}`);
+      continue;
+    }
+
+    const hunks = createHunks(preview.before, preview.after);
+    if (hunks.length === 0) {
+      if (preview.from) log.message(`${header}\n${pc.dim(`Moved from ${preview.from} — content unchanged`)}`);
+      continue;
+    }
+
+    const lines: string[] = [
+      pc.red(`--- ${preview.before ? `a/${preview.from ?? preview.path}` : '/dev/null'}`),
+      pc.green(`+++ b/${preview.path}`),
+    ];
+
+    for (const hunk of hunks) {
+      lines.push(pc.cyan(hunk.header));
+      for (const line of hunk.lines) {
+        const text = line.text.replace(/\r?\n$/, '');
+        if (line.type === 'add') lines.push(pc.green(`+${text}`));
+        else if (line.type === 'remove') lines.push(pc.red(`-${text}`));
+        else lines.push(pc.dim(` ${text}`));
+      }
+    }
+
+    log.message(`${header}\n${lines.join('\n')}`);
+  }
+}
+
+const FIELD_LABELS: Record<DependencyChange['field'], string> = {
+  dependencies: '',
+  devDependencies: 'dev',
+  peerDependencies: 'peer',
+};
+
+/**
+ * Formats the "after" column of a package.json change.
+ */
+function formatPackageResult(from: string | null, to: string | null, status: PackageChangeStatus): string {
+  switch (status) {
+    case 'applied':
+      return to === null ? pc.red('removed') : from === null ? pc.green(to) : pc.cyan(to);
+    case 'unchanged':
+      return pc.dim(from ?? '-');
+    case 'kept':
+      return `${from} ${pc.dim(`(kept, template has ${to})`)}`;
+    case 'conflict':
+      return `${pc.yellow(from ?? '-')} ${pc.yellow(`(conflict, template has ${to})`)}`;
+  }
+}
+
+/**
+ * Shows a table of package.json values before and after the upgrade.
+ */
+export function showDependencyTable(
+  changes: DependencyChange[],
+  fields: PackageFieldChange[] = []
+): void {
+  const rows = [
+    ...changes.map((c) => ({
+      name: c.name,
+      label: FIELD_LABELS[c.field],
+      from: c.from,
+      after: formatPackageResult(c.from, c.to, c.status),
+    })),
+    ...fields.map((f) => ({
+      name: `${f.section}.${f.key}`,
+      label: '',
+      from: f.from,
+      after: formatPackageResult(f.from, f.to, f.status),
+    })),
+  ];
+  if (rows.length === 0) return;
+
+  const width = Math.max(...rows.map((r) => r.name.length));
+  const labelWidth = Math.max(...rows.map((r) => r.label.length));
+  const fromWidth = Math.max(...rows.map((r) => (r.from ?? '-').length));
+
+  const lines = rows.map((r) => {
+    const label = labelWidth > 0 ? `  ${pc.dim(r.label.padEnd(labelWidth))}` : '';
+    return `  ${r.name.padEnd(width)}${label}  ${pc.dim((r.from ?? '-').padEnd(fromWidth))}  →  ${r.after}`;
   });
 
-  if (p.isCancel(proceed) || !proceed) {
-    p.cancel('Upgrade cancelled.');
-    return false;
+  log.message(pc.bold('package.json:') + '\n' + lines.join('\n'));
+
+  const conflicts = [...changes, ...fields].filter((c) => c.status === 'conflict').length;
+  if (conflicts > 0) {
+    log.warn(
+      pc.yellow(
+        `${conflicts} package.json value${conflicts !== 1 ? 's' : ''} couldn't be merged automatically. ` +
+        'Your values were kept — review them against the template.'
+      )
+    );
   }
+}
 
-  return true;
+/**
+ * Lists the codemods an upgrade would apply (dry run), with diffs if requested.
+ */
+export function showCodemodPreview(plans: CodemodPlan[], showDiffs: boolean): void {
+  const applicable = plans.filter((plan) => plan.changes.length > 0);
+  if (applicable.length === 0) return;
+
+  const lines = applicable.map((plan) =>
+    `  ${pc.green('⚙')} ${plan.step.title} ${pc.dim(`(${plan.changes.length} file${plan.changes.length !== 1 ? 's' : ''})`)}`
+  );
+  log.message(pc.bold('Automatic migrations available:') + '\n' + lines.join('\n'));
+
+  if (showDiffs) {
+    showFileDiffs(applicable.flatMap((plan) => plan.changes));
+  }
+}
+
+/**
+ * Previews a codemod and asks whether to apply it. Returns true to apply.
+ */
+export async function confirmCodemod(plan: CodemodPlan, yes: boolean): Promise<boolean> {
+  const files = plan.changes.map((c) => `  ${pc.yellow('M')} ${c.path}`).join('\n');
+  log.step(
+    `${pc.bold(plan.step.title)}\n${pc.dim(plan.step.description)}\n${files}`
+  );
+
+  if (yes) return true;
+
+  while (true) {
+    const action = await p.select({
+      message: 'Apply this automatic migration?',
+      options: [
+        { value: 'apply', label: 'Apply' },
+        { value: 'diff', label: 'View changes' },
+        { value: 'skip', label: 'Skip', hint: 'Leave it as a manual step' },
+      ],
+      initialValue: 'apply',
+    });
+
+    if (action === 'diff') {
+      showFileDiffs(plan.changes);
+      continue;
+    }
+
+    return !p.isCancel(action) && action === 'apply';
+  }
+}
+
+/**
+ * Asks which files removed from the template should be deleted from the project.
+ * Untouched files are preselected; with --yes only those are deleted.
+ */
+export async function selectRemovals(removed: FileDiff[], yes: boolean): Promise<string[]> {
+  if (removed.length === 0) return [];
+
+  const untouched = removed.filter((d) => d.change === 'template').map((d) => d.path);
+
+  if (yes) {
+    const kept = removed.length - untouched.length;
+    if (kept > 0) {
+      log.warn(pc.yellow(`Keeping ${kept} customized file${kept !== 1 ? 's' : ''} removed from the template.`));
+    }
+    return untouched;
+  }
+
+  const result = await p.multiselect({
+    message: 'These files were removed from the template. Delete them? (a backup is kept)',
+    options: removed.map((d) => ({
+      value: d.path,
+      label: d.path,
+      hint: d.change === 'template' ? undefined : 'customized',
+    })),
+    initialValues: untouched,
+    required: false,
+  });
+
+  if (p.isCancel(result)) {
+    return [];
+  }
+
+  return result as string[];
 }
 
+// Matches listed per manual step before the rest are summarized
+const MAX_LISTED_MATCHES = 10;
+
 /**
  * Shows manual migration steps with file matches.
  */
 export function showManualSteps(
   migrations: MigrationStep[],
-  matchResults: Map<string, string[]>
+  matchResults: Map<string, MigrationMatch[]>
 ): void {
   if (migrations.length === 0) return;
 
@@ -92,27 +529,126 @@ export function showManualSteps(
     const step = migrations[i]!;
     const matches = matchResults.get(step.title) ?? [];
 
-    lines.push(`${pc.bold(`${i + 1}. ${step.title}`)}`);
+    const since = step.version ? pc.dim(` (v${step.version})`) : '';
+    lines.push(`${pc.bold(`${i + 1}. ${step.title}`)}${since}`);
     lines.push(`   ${step.description}`);
 
     if (matches.length > 0) {
-      lines.push(`   ${pc.yellow('⚠')} Found matches in: ${matches.join(', ')}`);
+      const files = new Set(matches.map((m) => m.file)).size;
+      lines.push(
+        `   ${pc.yellow('⚠')} ${matches.length} match${matches.length !== 1 ? 'es' : ''} in ${files} file${files !== 1 ? 's' : ''}:`
+      );
+      for (const match of matches.slice(0, MAX_LISTED_MATCHES)) {
+        lines.push(`     ${pc.cyan(`${match.file}:${match.line}:${match.column}`)}  ${pc.dim(match.snippet)}`);
+      }
+      if (matches.length > MAX_LISTED_MATCHES) {
+        lines.push(pc.dim(`     ... and ${matches.length - MAX_LISTED_MATCHES} more`));
+      }
     }
 
     lines.push('');
   }
 
-  p.log.warning(pc.bold('Manual steps required:') + '\n\n' + lines.join('\n'));
+  log.warn(pc.bold('Manual steps required:') + '\n\n' + lines.join('\n'));
+}
+
+/**
+ * Lists files whose merge left conflicts that need manual resolution.
+ */
+export function showMergeConflicts(files: string[]): void {
+  if (files.length === 0) return;
+
+  log.warn(
+    pc.bold(`${files.length} file${files.length !== 1 ? 's' : ''} need${files.length === 1 ? 's' : ''} attention:`) + '\n' +
+    files.map((f) => `  ${pc.red('!')} ${f}`).join('\n') + '\n' +
+    pc.dim('Resolve the <<<<<<< / >>>>>>> conflict markers (binary files were left unchanged).')
+  );
+}
+
+// Lines of failing command output to show
+const VERIFY_OUTPUT_LINES = 40;
+
+/**
+ * Shows each verification step and, if one failed, the tail of its output.
+ */
+export function showVerificationResult(result: VerificationResult, installCommand: string): void {
+  const lines = result.steps.map((step) =>
+    `  ${step.passed ? pc.green('✓') : pc.red('✗')} ${step.name} ${pc.dim(`(${step.command})`)}`
+  );
+  log.message(pc.bold('Verification:') + '\n' + lines.join('\n'));
+
+  if (result.passed) return;
+
+  const output = (result.output ?? '').trimEnd().split('\n');
+  const tail = output.slice(-VERIFY_OUTPUT_LINES);
+  log.error(
+    (output.length > tail.length ? pc.dim(`... ${output.length - tail.length} earlier lines hidden\n`) : '') +
+    tail.join('\n')
+  );
+
+  if (result.rolledBack) {
+    log.warn(
+      pc.yellow(
+        'The upgrade was rolled back and your files were restored.\n' +
+        `Run ${pc.cyan(installCommand)} to bring node_modules back in sync.`
+      )
+    );
+  }
 }
 
 /**
  * Shows the upgrade completion message.
  */
-export function showUpgradeOutro(hasDepChanges: boolean): void {
-  if (hasDepChanges) {
-    p.log.info(`Run ${pc.cyan('pnpm install')} to update dependencies.`);
+export function showUpgradeOutro(installCommand: string | null): void {
+  if (installCommand) {
+    log.info(`Run ${pc.cyan(installCommand)} to update dependencies.`);
+  }
+  outro(pc.green('Upgrade complete! Review the manual steps above.'));
+}
+
+/**
+ * Lists available pre-upgrade backups, newest first.
+ */
+export function showBackupList(backups: UpgradeBackup[]): void {
+  intro(pc.bgCyan(pc.black(' Velocity Backups ')));
+
+  if (backups.length === 0) {
+    outro(pc.dim('No upgrade backups found.'));
+    return;
   }
-  p.outro(pc.green('Upgrade complete! Review the manual steps above.'));
+
+  const lines = backups.map((b, i) =>
+    `${pc.cyan(b.id)}  v${b.fromVersion} → v${b.toVersion}  ` +
+    pc.dim(`${b.files.length} file${b.files.length !== 1 ? 's' : ''}${i === 0 ? ' (latest)' : ''}`)
+  );
+  log.message(lines.join('\n'));
+  outro(pc.dim('Restore one with `upgrade --undo=<id>`.'));
+}
+
+/**
+ * Asks user to confirm restoring a backup. Returns true to proceed.
+ */
+export async function confirmRestore(backup: UpgradeBackup, yes: boolean): Promise<boolean> {
+  intro(pc.bgCyan(pc.black(' Velocity Undo ')));
+  log.info(
+    `Backup:   ${pc.cyan(backup.id)}\n` +
+    `Restores: ${pc.dim(`v${backup.toVersion}`)} → ${pc.green(`v${backup.fromVersion}`)} ` +
+    pc.dim(`(${backup.files.length} file${backup.files.length !== 1 ? 's' : ''})`)
+  );
+
+  if (yes) return true;
+
+  const proceed = await p.confirm({
+    message: 'Restore this backup? Changes made since the upgrade will be overwritten.',
+    initialValue: true,
+  });
+
+  if (p.isCancel(proceed) || !proceed) {
+    p.cancel('Undo cancelled.');
+    return false;
+  }
+
+  return true;
 }
 
 /**
@@ -120,11 +656,11 @@ export function showUpgradeOutro(hasDepChanges: boolean): void {
  */
 export async function warnDirtyGit(yes: boolean): Promise<boolean> {
   if (yes) {
-    p.log.warn(pc.yellow('You have uncommitted changes. Proceeding anyway (--yes).'));
+    log.warn(pc.yellow('You have uncommitted changes. Proceeding anyway (--yes).'));
     return true;
   }
 
-  p.log.warn(pc.yellow('You have uncommitted changes. We recommend committing or stashing first.'));
+  log.warn(pc.yellow('You have uncommitted changes. We recommend committing or stashing first.'));
 
   const proceed = await p.confirm({
     message: 'Continue anyway?',
@@ -1,41 +1,100 @@
-import { existsSync, readFileSync, writeFileSync, mkdirSync, copyFileSync, readdirSync, rmSync, statSync } from 'node:fs';
+import { existsSync, readFileSync, writeFileSync, mkdirSync, rmSync, cpSync } from 'node:fs';
 import { execSync } from 'node:child_process';
-import { join, dirname, relative } from 'node:path';
+import { createHash } from 'node:crypto';
+import { join, dirname } from 'node:path';
 import { tmpdir } from 'node:os';
-import * as p from '@clack/prompts';
 import pc from 'picocolors';
-import { downloadTemplate } from 'giget';
-import type { UpgradeOptions, UpgradeManifest, MigrationStep } from './types.js';
-import { readVelocityConfig, writeVelocityConfig } from './utils/velocity-config.js';
+import type {
+  UpgradeOptions,
+  UpgradeManifest,
+  UpgradeReport,
+  UpgradeCheckResult,
+  MigrationStep,
+  MigrationReport,
+  MigrationMatch,
+  FileDiff,
+  VelocityConfig,
+  DependencyChange,
+  PackageFieldChange,
+} from './types.js';
+import type { ComponentRegistry } from './registry/types.js';
+import type { TemplateSource } from './utils/template-source.js';
+import { readVelocityConfig, writeVelocityConfig, parseComponentsConfig } from './utils/velocity-config.js';
 import { readJson } from './utils/fs.js';
-import { diffProjects, summarizeDiffs } from './utils/diff.js';
+import { LOCKFILES, detectProjectPackageManager, getInstallCommand } from './utils/package-manager.js';
+import { verifyProject } from './utils/verify.js';
+import { createMatcher, validateGlob } from './utils/glob.js';
+import { readChangelog, changelogFromManifests, selectChangelog } from './utils/changelog.js';
+import {
+  isGitRepo,
+  getCurrentRef,
+  branchExists,
+  createBranch,
+  abandonBranch,
+  commitPaths,
+} from './utils/git.js';
+import { readPackageJson, writePackageJson, mergePackageJson, hasPackageChanges } from './utils/package-json.js';
+import { diffProjects, expandPaths, summarizeDiffs } from './utils/diff.js';
+import {
+  readManifest,
+  createFallbackManifest,
+  fetchManifest,
+  listTemplateVersions,
+  resolveVersionRef,
+  combineManifests,
+} from './utils/manifest.js';
+import { compareVersions, isVersionLessThan } from './utils/semver.js';
+import { mergeThreeWay, isBinary } from './utils/merge.js';
+import {
+  TEMPLATE_BASE_DIR,
+  hasTemplateBase,
+  readTemplateBase,
+  writeTemplateBase,
+  removeTemplateBase,
+} from './utils/template-base.js';
+import { createBackup, listBackups, restoreBackup } from './utils/backup.js';
+import { scanForMigrationPatterns, planCodemods, applyCodemod } from './utils/migrations.js';
+import type { CodemodPlan } from './utils/migrations.js';
+import {
+  parseTemplateSource,
+  describeTemplateSource,
+  supportsRefs,
+  DEFAULT_TEMPLATE_SOURCE,
+} from './utils/template-source.js';
+import { fetchTemplate, findCachedTemplate, isOfflineMode } from './utils/template-cache.js';
+import { fetchRegistry } from './registry/fetcher.js';
+import { resolveDependencies } from './registry/resolver.js';
+import { DEMO_CONTENT, OPTIONAL_COMPONENT_DIRS, applyTemplateOverlays } from './scaffold.js';
 import {
   showUpgradeIntro,
   showChangeSummary,
   confirmUpgrade,
+  showFileDiffs,
+  showDependencyTable,
   showManualSteps,
+  showCodemodPreview,
+  confirmCodemod,
+  selectRemovals,
   showUpgradeOutro,
+  showMergeConflicts,
+  showBackupList,
+  showCheckResult,
+  confirmRestore,
   warnDirtyGit,
+  setQuietMode,
+  reviewFiles,
+  showVerificationResult,
+  showChangelog,
+  createSpinner,
+  log,
+  outro,
 } from './upgrade-prompts.js';
+import type { FilePreview, ReviewDecision } from './upgrade-prompts.js';
+import { CLI_VERSION } from './version.js';
 
-const TEMPLATE_REPO = 'github:southwellmedia/velocity';
-const CLI_VERSION = '1.6.0';
-
-// Hardcoded fallback safe list if manifest is missing from template
-const FALLBACK_SAFE_FILES = [
-  'src/components/ui/',
-  'src/components/seo/',
-  'src/components/layout/',
-  'src/layouts/',
-  'src/lib/',
-  'src/styles/tokens/',
-  'src/styles/global.css',
-  'src/content.config.ts',
-  'tsconfig.json',
-  'eslint.config.js',
-  '.prettierrc',
-  '.prettierignore',
-];
+// Exit codes for `upgrade --check` (1 is reserved for errors)
+const CHECK_EXIT_OUTDATED = 2;
+const CHECK_EXIT_CLI_OUTDATED = 3;
 
 /**
  * Checks if the project has uncommitted git changes.
@@ -54,202 +113,471 @@ function hasUncommittedChanges(targetDir: string): boolean {
 }
 
 /**
- * Compares two semver-like version strings.
- * Returns true if `current` < `required`.
+ * Parses the project's template source, exiting with an error if it's invalid.
  */
-function isVersionLessThan(current: string, required: string): boolean {
-  const parse = (v: string) =>
-    v.replace(/^v/, '').split(/[-.]/).map((p) => {
-      const n = parseInt(p, 10);
-      return isNaN(n) ? 0 : n;
-    });
+function resolveTemplateSource(template: string | undefined, json: boolean): TemplateSource {
+  try {
+    return parseTemplateSource(template ?? DEFAULT_TEMPLATE_SOURCE);
+  } catch (error) {
+    fail(error instanceof Error ? error.message : `Invalid template source: ${template}`, json);
+  }
+}
+
+/**
+ * Builds a filter so upgrades only add files matching the project's original
+ * feature selection: no demo content for projects created without it, and
+ * only the chosen components (plus anything they now depend on).
+ */
+async function createAddFilter(
+  config: VelocityConfig,
+  templateDir: string,
+  source: TemplateSource
+): Promise<(filePath: string) => boolean> {
+  const selection = parseComponentsConfig(config.features.components);
+  // null = every component file may be added
+  let componentFiles: Set<string> | null = null;
+
+  if (selection.mode === 'none') {
+    componentFiles = new Set();
+  } else if (selection.mode !== 'all') {
+    try {
+      // Prefer the registry shipped with the target template version
+      const registryPath = join(templateDir, 'component-registry.json');
+      const registry = existsSync(registryPath)
+        ? readJson<ComponentRegistry>(registryPath)
+        : await fetchRegistry(source);
+      componentFiles = new Set(resolveDependencies(selection, registry).files);
+    } catch {
+      log.warn(pc.yellow('Could not load the component registry. New component files will not be added.'));
+      componentFiles = new Set();
+    }
+  }
+
+  const isWithin = (filePath: string, paths: string[]) =>
+    paths.some((path) => filePath === path || filePath.startsWith(`${path}/`));
+
+  return (filePath) => {
+    if (!config.features.demo && isWithin(filePath, DEMO_CONTENT)) return false;
+    if (componentFiles && isWithin(filePath, OPTIONAL_COMPONENT_DIRS)) {
+      return componentFiles.has(filePath);
+    }
+    return true;
+  };
+}
+
+/**
+ * Picks the migration steps that still need a human: steps without a codemod,
+ * codemods the user skipped, and codemods that left pattern matches behind.
+ */
+function selectManualSteps(
+  migrations: MigrationStep[],
+  codemods: CodemodPlan[],
+  accepted: Set<MigrationStep>,
+  matchResults: Map<string, MigrationMatch[]>
+): MigrationStep[] {
+  return migrations.filter((step) => {
+    if (!step.transform) return true;
+
+    const plan = codemods.find((c) => c.step === step);
+    if (plan && plan.changes.length > 0 && !accepted.has(step)) return true;
+
+    return (matchResults.get(step.title)?.length ?? 0) > 0;
+  });
+}
+
+/**
+ * Paths codemods must leave alone: files the upgrade writes (already migrated),
+ * framework files the user hasn't customized (they'd stop matching the base),
+ * protected files, files being renamed or removed, and anything `isUntouchable`
+ * matches (ignored or protected files that never became a diff).
+ */
+function getCodemodExclusions(
+  diffs: FileDiff[],
+  written: string[],
+  isUntouchable: (filePath: string) => boolean
+): (filePath: string) => boolean {
+  const excluded = new Set([
+    ...written,
+    ...diffs
+      .filter((d) => d.category === 'protected' || d.status === 'removed' || d.change === 'template' ||
+        (d.status === 'unchanged' && d.change !== 'local'))
+      .map((d) => d.path),
+    ...diffs.flatMap((d) => (d.from ? [d.from] : [])),
+  ]);
+
+  return (filePath) => excluded.has(filePath) || isUntouchable(filePath);
+}
 
-  const a = parse(current);
-  const b = parse(required);
-  const len = Math.max(a.length, b.length);
+/**
+ * Hashes a template file so a skip can be matched against later upstream content.
+ */
+function hashTemplateFile(freshDir: string, filePath: string): string {
+  return createHash('sha256').update(readFileSync(join(freshDir, filePath))).digest('hex');
+}
 
-  for (let i = 0; i < len; i++) {
-    const av = a[i] ?? 0;
-    const bv = b[i] ?? 0;
-    if (av < bv) return true;
-    if (av > bv) return false;
+/**
+ * Flags files the user skipped in an earlier upgrade whose upstream content
+ * hasn't changed since, so they aren't offered again.
+ */
+function markSkippedFiles(
+  diffs: FileDiff[],
+  freshDir: string,
+  skipped: Record<string, string>
+): void {
+  for (const diff of diffs) {
+    if (diff.status !== 'added' && diff.status !== 'modified') continue;
+    const hash = skipped[diff.path];
+    if (hash && hash === hashTemplateFile(freshDir, diff.path)) {
+      diff.skipped = true;
+    }
   }
-  return false;
 }
 
 /**
- * Scans user files for migration patterns and returns matches.
+ * Returns the config's upgrade settings with the skipped-file list replaced,
+ * dropping empty entries so .velocity.json stays tidy.
  */
-function scanForMigrationPatterns(
+function withSkippedFiles(
+  settings: VelocityConfig['upgrade'],
+  skipped: Record<string, string>
+): VelocityConfig['upgrade'] {
+  const { skipped: _previous, ...rest } = settings ?? {};
+  const next = Object.keys(skipped).length > 0 ? { ...rest, skipped } : rest;
+  return Object.keys(next).length > 0 ? next : undefined;
+}
+
+interface PlannedFile {
+  diff: FileDiff;
+  // Content to write, or null to leave the user's file untouched
+  content: Buffer | null;
+  conflicts: number;
+}
+
+/**
+ * Works out the content to write for each added/modified safe file.
+ * Files changed on both sides are three-way merged against the recorded base.
+ */
+function planFileChanges(
+  diffs: FileDiff[],
   targetDir: string,
-  migrations: MigrationStep[]
-): Map<string, string[]> {
-  const results = new Map<string, string[]>();
+  freshDir: string,
+  version: string
+): PlannedFile[] {
+  const planned: PlannedFile[] = [];
+
+  for (const diff of diffs) {
+    if (diff.status !== 'added' && diff.status !== 'modified') continue;
+    if (diff.skipped || diff.category === 'protected') continue;
 
-  for (const migration of migrations) {
-    if (!migration.pattern) {
-      results.set(migration.title, []);
+    const fresh = readFileSync(join(freshDir, diff.path));
+
+    if (diff.change !== 'both') {
+      planned.push({ diff, content: fresh, conflicts: 0 });
       continue;
     }
 
-    const regex = new RegExp(migration.pattern);
-    const matches: string[] = [];
-
-    // Determine search paths
-    const searchPaths = migration.searchPaths?.length
-      ? migration.searchPaths
-      : ['src/'];
-
-    for (const searchPath of searchPaths) {
-      const fullPath = join(targetDir, searchPath);
-      if (!existsSync(fullPath)) continue;
-
-      const files = walkFiles(fullPath);
-      for (const file of files) {
-        try {
-          const content = readFileSync(file, 'utf-8');
-          if (regex.test(content)) {
-            matches.push(relative(targetDir, file));
-          }
-        } catch {
-          // Skip unreadable files
-        }
-      }
+    const base = (diff.from && readTemplateBase(targetDir, diff.from)) || readTemplateBase(targetDir, diff.path)!;
+    const current = readFileSync(join(targetDir, diff.from ?? diff.path));
+
+    // Binary files can't be merged line by line — keep the user's copy
+    if (isBinary(base) || isBinary(current) || isBinary(fresh)) {
+      planned.push({ diff, content: null, conflicts: 1 });
+      continue;
     }
 
-    results.set(migration.title, matches);
+    const result = mergeThreeWay(base.toString('utf-8'), current.toString('utf-8'), fresh.toString('utf-8'), {
+      ours: 'your changes',
+      theirs: `velocity v${version}`,
+    });
+    planned.push({ diff, content: Buffer.from(result.content, 'utf-8'), conflicts: result.conflicts });
   }
 
-  return results;
+  return planned;
 }
 
 /**
- * Recursively walks a directory and returns all file paths.
+ * Pairs each planned file with the user's current content for diff previews.
  */
-function walkFiles(dir: string): string[] {
-  const results: string[] = [];
-  if (!existsSync(dir)) return results;
-
-  const stat = statSync(dir);
-  if (!stat.isDirectory()) {
-    return [dir];
-  }
-
-  const entries = readdirSync(dir, { withFileTypes: true });
-  for (const entry of entries) {
-    const fullPath = join(dir, entry.name);
-    if (entry.isDirectory()) {
-      // Skip node_modules and .git
-      if (entry.name === 'node_modules' || entry.name === '.git') continue;
-      results.push(...walkFiles(fullPath));
-    } else {
-      results.push(fullPath);
-    }
+function buildFilePreviews(planned: PlannedFile[], targetDir: string): FilePreview[] {
+  return planned.map(({ diff, content }) => {
+    const currentPath = join(targetDir, diff.from ?? diff.path);
+    const before = existsSync(currentPath) ? readFileSync(currentPath) : Buffer.alloc(0);
+    const binary = content === null || isBinary(before) || isBinary(content);
+
+    return {
+      path: diff.path,
+      from: diff.from,
+      before: before.toString('utf-8'),
+      after: binary ? null : content.toString('utf-8'),
+    };
+  });
+}
+
+/**
+ * Describes each migration step for the JSON report.
+ */
+function reportMigrations(
+  migrations: MigrationStep[],
+  matchResults: Map<string, MigrationMatch[]>,
+  automated: Set<MigrationStep>
+): MigrationReport[] {
+  return migrations.map((step) => ({
+    title: step.title,
+    description: step.description,
+    version: step.version,
+    automated: automated.has(step),
+    matches: matchResults.get(step.title) ?? [],
+  }));
+}
+
+/**
+ * Prints a JSON document to stdout (used by --json).
+ */
+function printJson(data: unknown): void {
+  process.stdout.write(JSON.stringify(data, null, 2) + '\n');
+}
+
+/**
+ * Reports a fatal error, cleans up the temp dir and exits.
+ * In --json mode the error is printed as JSON so scripts can parse it.
+ */
+function fail(message: string, json: boolean, tempDir?: string): never {
+  if (json) {
+    printJson({ error: message });
+  } else {
+    log.error(pc.red(message));
   }
-  return results;
+  if (tempDir) cleanup(tempDir);
+  process.exit(1);
 }
 
 /**
- * Merges dependency changes into the project's package.json.
+ * Writes the commit messages for `upgrade --branch`: one for framework files,
+ * one for package.json and one for codemod edits.
  */
-function mergePackageJsonDeps(
-  targetDir: string,
-  manifest: UpgradeManifest
-): void {
-  const pkgPath = join(targetDir, 'package.json');
-  if (!existsSync(pkgPath)) return;
+function buildCommitMessages(upgrade: {
+  fromVersion: string;
+  toVersion: string;
+  releases: string[];
+  applied: PlannedFile[];
+  toDelete: string[];
+  conflicted: string[];
+  dependencies: DependencyChange[];
+  fields: PackageFieldChange[];
+  codemods: CodemodPlan[];
+}): { framework: string; dependencies: string; codemods: string } {
+  const { fromVersion, toVersion } = upgrade;
+  const section = (title: string, lines: string[]) =>
+    lines.length > 0 ? [`${title}:`, ...lines.map((line) => `  ${line}`), ''] : [];
 
-  const pkg = JSON.parse(readFileSync(pkgPath, 'utf-8'));
+  const range = upgrade.releases.length > 1
+    ? `Upgrades from v${fromVersion} to v${toVersion} (releases ${upgrade.releases.map((v) => `v${v}`).join(', ')}).`
+    : `Upgrades from v${fromVersion} to v${toVersion}.`;
 
-  // Update dependencies
-  for (const [name, version] of Object.entries(manifest.dependencies.update)) {
-    if (pkg.dependencies?.[name] !== undefined) {
-      pkg.dependencies[name] = version;
-    } else if (pkg.devDependencies?.[name] !== undefined) {
-      pkg.devDependencies[name] = version;
-    } else {
-      // Default to dependencies
-      if (!pkg.dependencies) pkg.dependencies = {};
-      pkg.dependencies[name] = version;
-    }
+  const framework = [
+    `Upgrade Velocity framework files to v${toVersion}`,
+    '',
+    range,
+    '',
+    ...section('Updated', upgrade.applied.filter((f) => f.diff.status === 'modified' && !f.diff.from).map((f) => f.diff.path)),
+    ...section('Added', upgrade.applied.filter((f) => f.diff.status === 'added').map((f) => f.diff.path)),
+    ...section('Moved', upgrade.applied.filter((f) => f.diff.from).map((f) => `${f.diff.from} → ${f.diff.path}`)),
+    ...section('Deleted', upgrade.toDelete),
+    ...section('Merge conflicts to resolve', upgrade.conflicted),
+  ];
+
+  const applied = upgrade.dependencies.filter((d) => d.status === 'applied');
+  const kept = upgrade.dependencies.filter((d) => d.status === 'kept' || d.status === 'conflict');
+  const dependencies = [
+    `Update dependencies for Velocity v${toVersion}`,
+    '',
+    range,
+    '',
+    ...section('Updated', applied.filter((d) => d.operation !== 'remove' && d.from !== null).map((d) => `${d.name} ${d.from} → ${d.to}`)),
+    ...section('Added', applied.filter((d) => d.operation !== 'remove' && d.from === null).map((d) => `${d.name} ${d.to} (${d.field})`)),
+    ...section('Removed', applied.filter((d) => d.operation === 'remove').map((d) => `${d.name} ${d.from}`)),
+    ...section('Kept', kept.map((d) => `${d.name} ${d.from} (template: ${d.to})`)),
+    ...section(
+      'Merged from the template',
+      upgrade.fields.filter((f) => f.status === 'applied').map((f) => `${f.section}.${f.key}: ${f.to}`)
+    ),
+  ];
+
+  const codemods = [
+    `Apply Velocity v${toVersion} codemods`,
+    '',
+    ...upgrade.codemods.flatMap((plan) =>
+      section(
+        `${plan.step.title}${plan.step.version ? ` (v${plan.step.version})` : ''}`,
+        plan.changes.map((c) => c.path)
+      )
+    ),
+  ];
+
+  return {
+    framework: framework.join('\n').trimEnd() + '\n',
+    dependencies: dependencies.join('\n').trimEnd() + '\n',
+    codemods: codemods.join('\n').trimEnd() + '\n',
+  };
+}
+
+/**
+ * Fetches manifests for releases after `fromVersion` and before `toVersion`, oldest first.
+ * Releases whose manifest can't be fetched are skipped with a warning.
+ */
+async function collectIntermediateManifests(
+  source: TemplateSource,
+  fromVersion: string,
+  toVersion: string
+): Promise<UpgradeManifest[]> {
+  let versions: { version: string; tag: string }[];
+  try {
+    versions = await listTemplateVersions(source);
+  } catch {
+    log.warn(pc.yellow('Could not list template releases. Using the target manifest only.'));
+    return [];
   }
 
-  // Remove dependencies
-  for (const name of manifest.dependencies.remove) {
-    if (pkg.dependencies?.[name] !== undefined) {
-      delete pkg.dependencies[name];
+  const manifests: UpgradeManifest[] = [];
+  const missing: string[] = [];
+
+  for (const { version, tag } of versions) {
+    if (compareVersions(version, fromVersion) <= 0 || compareVersions(version, toVersion) >= 0) {
+      continue;
     }
-    if (pkg.devDependencies?.[name] !== undefined) {
-      delete pkg.devDependencies[name];
+
+    try {
+      manifests.push(await fetchManifest(source, tag));
+    } catch {
+      missing.push(tag);
     }
   }
 
-  // Add new dependencies
-  for (const [name, version] of Object.entries(manifest.dependencies.add)) {
-    if (!pkg.dependencies) pkg.dependencies = {};
-    pkg.dependencies[name] = version;
+  if (missing.length > 0) {
+    log.warn(pc.yellow(`No manifest found for ${missing.join(', ')}. Their migration steps are skipped.`));
   }
 
-  writeFileSync(pkgPath, JSON.stringify(pkg, null, 2) + '\n');
+  return manifests;
+}
+
+/**
+ * Fetches the template version the project is on (the cached copy if there is
+ * one), so projects without a .velocity/base snapshot can still find files the
+ * template has dropped since. Returns null if it can't be had.
+ */
+async function fetchPreviousTemplate(
+  source: TemplateSource,
+  config: VelocityConfig
+): Promise<{ dir: string; files: string[] } | null> {
+  if (!supportsRefs(source)) return null;
+
+  const dir = join(tmpdir(), `velocity-previous-${Date.now()}`);
+  try {
+    const cached = findCachedTemplate(source, config.version);
+    if (cached) {
+      cpSync(cached.dir, dir, { recursive: true });
+    } else {
+      const ref = isOfflineMode() ? config.version : await resolveVersionRef(source, config.version);
+      await fetchTemplate(source, dir, ref);
+    }
+    applyTemplateOverlays(dir, config.features);
+  } catch {
+    cleanup(dir);
+    return null;
+  }
+
+  const manifest = readManifest(dir) ?? createFallbackManifest(config.version);
+  return { dir, files: expandPaths(manifest.files.safe, dir) };
 }
 
 /**
  * Main upgrade orchestration function.
  */
 export async function upgrade(options: UpgradeOptions): Promise<void> {
-  const { targetDir, dryRun, yes } = options;
+  const { targetDir, dryRun, to, diff, review, verify, branch, json = false } = options;
+  // --json is non-interactive: no prompts, no decorated output
+  const yes = options.yes || json;
+  setQuietMode(json);
 
   // 1. Read .velocity.json
   const config = readVelocityConfig(targetDir);
   if (!config) {
-    p.log.error(
-      pc.red(
-        "This doesn't appear to be a Velocity project.\n" +
-        'Run this command from a project created with create-velocity-astro.'
-      )
+    fail(
+      "This doesn't appear to be a Velocity project.\n" +
+      'Run this command from a project created with create-velocity-astro,\n' +
+      'or run `pnpm create velocity-astro adopt` to start tracking an older one.',
+      json
     );
-    process.exit(1);
   }
 
-  // Check for dirty git state
-  if (hasUncommittedChanges(targetDir)) {
+  // Malformed ignore/protect globs are config errors, not crashes halfway through
+  for (const field of ['ignore', 'protect'] as const) {
+    for (const pattern of config.upgrade?.[field] ?? []) {
+      const { valid, message } = validateGlob(pattern);
+      if (!valid) {
+        fail(`${message} in upgrade.${field} of .velocity.json.`, json);
+      }
+    }
+  }
+
+  // --template switches the project to another source, for this and later upgrades
+  const template = options.template ?? config.template;
+  const source = resolveTemplateSource(template, json);
+  if (to && !supportsRefs(source)) {
+    fail(`--to is not supported for ${source.provider === 'local' ? 'local' : 'tarball'} template sources.`, json);
+  }
+
+  // Check for dirty git state. --branch commits the upgrade, so it needs a clean tree.
+  if (branch && !dryRun) {
+    if (!(await isGitRepo(targetDir))) {
+      fail('--branch requires the project to be a git repository.', json);
+    }
+    if (hasUncommittedChanges(targetDir)) {
+      fail('Commit or stash your changes before upgrading with --branch.', json);
+    }
+  } else if (hasUncommittedChanges(targetDir)) {
     const proceed = await warnDirtyGit(yes);
     if (!proceed) return;
   }
 
-  // 2. Download latest template to temp dir
-  const spinner = p.spinner();
-  spinner.start('Downloading latest template...');
+  // 2. Download latest (or requested) template to temp dir
+  const spinner = createSpinner();
+  spinner.start(
+    to
+      ? `Downloading template (${to})...`
+      : `Downloading latest template${template ? ` from ${describeTemplateSource(source)}` : ''}...`
+  );
 
   const tempDir = join(tmpdir(), `velocity-upgrade-${Date.now()}`);
 
   try {
-    await downloadTemplate(TEMPLATE_REPO, {
-      dir: tempDir,
-      force: true,
-    });
+    // --to=1.8.0 means the release tag (v1.8.0); the offline cache matches versions itself
+    const ref = to && !isOfflineMode() ? await resolveVersionRef(source, to) : to;
+    await fetchTemplate(source, tempDir, ref);
     spinner.stop('Template downloaded');
   } catch (error) {
     spinner.stop('Failed to download template');
-    p.log.error(
-      pc.red(
-        'Could not download template. Check your internet connection.\n' +
-        (error instanceof Error ? error.message : '')
-      )
+    fail(
+      'Could not download template. Check your internet connection.\n' +
+      (error instanceof Error ? error.message : ''),
+      json,
+      tempDir
     );
-    cleanup(tempDir);
-    process.exit(1);
+  }
+
+  // Compose i18n/minimal overlays like scaffold did, so i18n projects stay i18n
+  try {
+    applyTemplateOverlays(tempDir, config.features);
+  } catch (error) {
+    fail(error instanceof Error ? error.message : 'Could not apply template overlays', json, tempDir);
   }
 
   // 3. Read velocity-manifest.json from fresh template
-  let manifest: UpgradeManifest;
-  const manifestPath = join(tempDir, 'velocity-manifest.json');
+  let manifest = readManifest(tempDir);
 
-  if (existsSync(manifestPath)) {
-    manifest = readJson<UpgradeManifest>(manifestPath);
-  } else {
+  if (!manifest) {
     // Fallback: use hardcoded safe list
-    p.log.warn(pc.yellow('Manifest not found in template. Using fallback file list.'));
+    log.warn(pc.yellow('Manifest not found in template. Using fallback file list.'));
 
     // Try to read version from template's package.json
     let templateVersion = config.version;
@@ -261,77 +589,192 @@ export async function upgrade(options: UpgradeOptions): Promise<void> {
       }
     }
 
-    manifest = {
-      version: templateVersion,
-      minCliVersion: '1.0.0',
-      files: {
-        safe: FALLBACK_SAFE_FILES,
-        protected: [],
-      },
-      dependencies: {
-        update: {},
-        remove: [],
-        add: {},
-      },
-      migrations: [],
-    };
+    manifest = createFallbackManifest(templateVersion);
+  }
+
+  if (compareVersions(manifest.version, config.version) < 0) {
+    fail(
+      `Template v${manifest.version} is older than this project (v${config.version}).\n` +
+      'Use `upgrade --undo` to roll back a previous upgrade.',
+      json,
+      tempDir
+    );
+  }
+
+  // Fold in manifests of every release we're skipping over
+  let releases = [manifest.version];
+  let releaseManifests = [manifest];
+  if (compareVersions(manifest.version, config.version) > 0) {
+    spinner.start('Checking intermediate releases...');
+    const intermediate = await collectIntermediateManifests(source, config.version, manifest.version);
+    if (intermediate.length > 0) {
+      releaseManifests = [...intermediate, manifest];
+      manifest = combineManifests(releaseManifests);
+      releases = [...intermediate.map((m) => m.version), manifest.version];
+    }
+    spinner.stop(
+      releases.length > 1
+        ? `Found ${releases.length} releases since v${config.version}`
+        : 'No intermediate releases'
+    );
   }
 
   // Check CLI version requirement
   if (isVersionLessThan(CLI_VERSION, manifest.minCliVersion)) {
-    p.log.error(
-      pc.red(
-        `This upgrade requires create-velocity-astro >= ${manifest.minCliVersion}.\n` +
-        'Run `npm update -g create-velocity-astro` to update.'
-      )
+    fail(
+      `This upgrade requires create-velocity-astro >= ${manifest.minCliVersion}.\n` +
+      'Run `npm update -g create-velocity-astro` to update.',
+      json,
+      tempDir
     );
-    cleanup(tempDir);
-    process.exit(1);
   }
 
-  // Check if already on latest version
+  // Release notes: the template's CHANGELOG.md, else the notes in each manifest
+  const changelog = selectChangelog(
+    readChangelog(tempDir) ?? changelogFromManifests(releaseManifests),
+    config.version,
+    manifest.version
+  );
+
+  const report: UpgradeReport = {
+    currentVersion: config.version,
+    targetVersion: manifest.version,
+    releases,
+    changelog,
+    dryRun,
+    applied: false,
+    files: [],
+    dependencies: [],
+    packageFields: [],
+    migrations: [],
+    backup: null,
+    verification: null,
+    branch: null,
+  };
+
+  // Check if already on target version
   if (config.version === manifest.version) {
     showUpgradeIntro(config.version, manifest.version);
-    p.log.info(pc.green(`Already on v${manifest.version}. Nothing to upgrade.`));
-    p.outro('');
+    log.info(pc.green(`Already on v${manifest.version}. Nothing to upgrade.`));
+    outro('');
+    if (json) printJson(report);
     cleanup(tempDir);
     return;
   }
 
+  const branchName = `velocity/upgrade-v${manifest.version}`;
+  if (branch && !dryRun && await branchExists(targetDir, branchName)) {
+    fail(`Branch ${branchName} already exists. Delete it or merge it before upgrading again.`, json, tempDir);
+  }
+
+  // Without a snapshot, removed files are found by comparing with the project's template version
+  let previous: { dir: string; files: string[] } | null = null;
+  if (!hasTemplateBase(targetDir)) {
+    spinner.start(`Downloading template v${config.version} to find removed files...`);
+    previous = await fetchPreviousTemplate(source, config);
+    spinner.stop(previous ? `Compared with template v${config.version}` : `Could not download template v${config.version}`);
+    if (!previous) {
+      log.warn(pc.yellow('Files the template no longer ships will not be detected in this upgrade.'));
+    }
+  }
+
   // 4. Diff safe files
-  const diffs = diffProjects(targetDir, tempDir, manifest);
-  const { added, modified } = summarizeDiffs(diffs);
+  const canAdd = await createAddFilter(config, tempDir, source);
+  const diffs = diffProjects(targetDir, tempDir, manifest, {
+    canAdd,
+    ignore: config.upgrade?.ignore,
+    protect: config.upgrade?.protect,
+    previous: previous ?? undefined,
+  });
+  if (previous) cleanup(previous.dir);
+  markSkippedFiles(diffs, tempDir, config.upgrade?.skipped ?? {});
+  const { added, modified, removed } = summarizeDiffs(diffs);
+  report.files = diffs;
+
+  // Work out package.json changes up front so previews match what gets written
+  const currentPkg = readPackageJson(targetDir);
+  const packageMerge = currentPkg
+    ? mergePackageJson(currentPkg, manifest, readPackageJson(tempDir))
+    : null;
+  const hasDepChanges = packageMerge !== null && hasPackageChanges(packageMerge);
+  const dependencyChanges = packageMerge?.dependencies ?? [];
+  const fieldChanges = packageMerge?.fields ?? [];
+  report.dependencies = dependencyChanges;
+  report.packageFields = fieldChanges;
 
   // If no changes at all
-  if (added === 0 && modified === 0 &&
-      Object.keys(manifest.dependencies.update).length === 0 &&
-      manifest.dependencies.remove.length === 0 &&
-      Object.keys(manifest.dependencies.add).length === 0) {
-    showUpgradeIntro(config.version, manifest.version);
-    p.log.info(pc.green('All files are up to date. Updating version marker only.'));
+  if (added === 0 && modified === 0 && removed === 0 && !hasDepChanges &&
+      manifest.migrations.length === 0) {
+    showUpgradeIntro(config.version, manifest.version, releases);
+    showChangelog(changelog);
+    log.info(pc.green('All files are up to date. Updating version marker only.'));
     if (!dryRun) {
+      writeTemplateBase(
+        targetDir,
+        tempDir,
+        diffs.filter((d) => !d.skipped && d.category === 'safe').map((d) => d.path)
+      );
       writeVelocityConfig(targetDir, {
         ...config,
         version: manifest.version,
         updatedAt: new Date().toISOString().slice(0, 10),
+        template,
       });
     }
-    p.outro('');
+    outro('');
+    if (json) printJson({ ...report, applied: !dryRun });
     cleanup(tempDir);
     return;
   }
 
   // 5. Show summary and confirm
-  showUpgradeIntro(config.version, manifest.version);
-  showChangeSummary(diffs, manifest);
+  showUpgradeIntro(config.version, manifest.version, releases);
+  showChangelog(changelog);
+  showChangeSummary(diffs, manifest, dependencyChanges);
+
+  if (modified > 0 && !hasTemplateBase(targetDir)) {
+    log.warn(
+      pc.yellow(
+        'No template snapshot found (.velocity/base). Local edits to framework files\n' +
+        "can't be detected, so modified files will be replaced. Future upgrades will merge them."
+      )
+    );
+  }
 
-  const shouldProceed = await confirmUpgrade(dryRun);
+  const planned = planFileChanges(diffs, targetDir, tempDir, manifest.version);
+  const showDiff = () => {
+    showFileDiffs(buildFilePreviews(planned, targetDir));
+    showDependencyTable(dependencyChanges, fieldChanges);
+  };
+
+  if (dryRun && diff) {
+    showDiff();
+  }
+
+  const shouldProceed = await confirmUpgrade(dryRun, yes, showDiff);
+
+  // Codemods only touch user files, and never ignored or protected ones
+  const isUntouchable = createMatcher(
+    [...(config.upgrade?.ignore ?? []), ...(config.upgrade?.protect ?? []), ...manifest.files.protected],
+    [targetDir, tempDir]
+  );
+  let codemods = planCodemods(
+    targetDir,
+    manifest.migrations,
+    getCodemodExclusions(diffs, planned.map((f) => f.diff.path), isUntouchable)
+  );
 
   if (dryRun) {
-    // In dry-run mode, still show manual migration steps
-    const matchResults = scanForMigrationPatterns(targetDir, manifest.migrations);
-    showManualSteps(manifest.migrations, matchResults);
-    p.outro(pc.dim('Dry run complete. No changes were made.'));
+    // In dry-run mode, still show codemods and manual migration steps
+    showCodemodPreview(codemods, diff ?? false);
+    const matchResults = scanForMigrationPatterns(targetDir, manifest.migrations, isUntouchable);
+    showManualSteps(manifest.migrations.filter((step) => !step.transform), matchResults);
+    outro(pc.dim('Dry run complete. No changes were made.'));
+    if (json) {
+      const automatable = new Set(codemods.filter((c) => c.changes.length > 0).map((c) => c.step));
+      report.migrations = reportMigrations(manifest.migrations, matchResults, automatable);
+      printJson(report);
+    }
     cleanup(tempDir);
     return;
   }
@@ -341,13 +784,89 @@ export async function upgrade(options: UpgradeOptions): Promise<void> {
     return;
   }
 
+  // Per-file review: declined files keep the user's copy and their old base
+  let decisions = new Map<string, ReviewDecision>();
+  if (review && !yes) {
+    const result = await reviewFiles(buildFilePreviews(planned, targetDir));
+    if (!result) {
+      cleanup(tempDir);
+      return;
+    }
+    decisions = result;
+  }
+
+  const applied = planned.filter((f) => (decisions.get(f.diff.path) ?? 'accept') === 'accept');
+  const declined = new Set(planned.filter((f) => !applied.includes(f)).map((f) => f.diff.path));
+
+  if (declined.size > 0) {
+    // Customized files the user kept are user files again, so codemods may touch them
+    codemods = planCodemods(
+      targetDir,
+      manifest.migrations,
+      getCodemodExclusions(diffs, applied.map((f) => f.diff.path), isUntouchable)
+    );
+  }
+
+  // Preview each codemod and let the user accept or skip it
+  const accepted: CodemodPlan[] = [];
+  for (const plan of codemods) {
+    if (plan.changes.length === 0) continue;
+    if (await confirmCodemod(plan, yes)) {
+      accepted.push(plan);
+    }
+  }
+
+  // Files the template dropped: the user decides which to delete
+  const removedDiffs = diffs.filter((d) => d.status === 'removed' && d.category === 'safe');
+  const toDelete = await selectRemovals(removedDiffs, yes);
+  const movedFrom = applied.flatMap((f) => (f.diff.from ? [f.diff.from] : []));
+  const staleBase = [...removedDiffs.map((d) => d.path), ...movedFrom];
+
+  // Everything the upgrade may touch, grouped the way --branch commits it
+  const frameworkPaths = [
+    ...applied.map((f) => f.diff.path),
+    ...movedFrom,
+    ...toDelete,
+    ...[...diffs.map((d) => d.path), ...staleBase].map((f) => `${TEMPLATE_BASE_DIR}/${f}`),
+    '.velocity.json',
+    // Written with the first backup so backups stay out of git
+    '.velocity/.gitignore',
+  ];
+  // Installing during --verify rewrites the lockfile
+  const dependencyPaths = ['package.json', ...(verify ? Object.keys(LOCKFILES) : [])];
+  const plannedCodemodPaths = accepted.flatMap((plan) => plan.changes.map((c) => c.path));
+
+  // Work on a dedicated branch so the upgrade can be reviewed as a pull request
+  const originalRef = branch ? await getCurrentRef(targetDir) : null;
+  if (branch) {
+    try {
+      await createBranch(targetDir, branchName);
+      report.branch = branchName;
+      log.info(`Created branch ${pc.cyan(branchName)}`);
+    } catch (error) {
+      fail(`Could not create branch ${branchName}.\n${error instanceof Error ? error.message : ''}`, json, tempDir);
+    }
+  }
+
   // 6. Apply changes
   spinner.start('Applying changes...');
 
-  // 6a. Copy modified/added safe files
-  const changedDiffs = diffs.filter((d) => d.status === 'added' || d.status === 'modified');
-  for (const diff of changedDiffs) {
-    const src = join(tempDir, diff.path);
+  // Snapshot everything we're about to touch so `upgrade --undo` can restore it
+  const backup = createBackup(
+    targetDir,
+    [...frameworkPaths, ...plannedCodemodPaths, ...dependencyPaths],
+    { fromVersion: config.version, toVersion: manifest.version }
+  );
+
+  // 6a. Write modified/added safe files, merging local customizations
+  const conflicted: string[] = [];
+  let merged = 0;
+
+  for (const { diff, content, conflicts } of applied) {
+    if (conflicts > 0) conflicted.push(diff.path);
+    if (content === null) continue;
+    if (diff.change === 'both' && conflicts === 0) merged++;
+
     const dest = join(targetDir, diff.path);
     const destDir = dirname(dest);
 
@@ -355,50 +874,281 @@ export async function upgrade(options: UpgradeOptions): Promise<void> {
       mkdirSync(destDir, { recursive: true });
     }
 
-    copyFileSync(src, dest);
+    writeFileSync(dest, content);
   }
 
+  // Drop renamed files from their old location and removed files the user chose to delete
+  for (const file of [...movedFrom, ...toDelete]) {
+    rmSync(join(targetDir, file), { force: true });
+  }
+
+  // Record the new template content as the base for the next upgrade.
+  // Skipped and deferred files keep their old base so they're offered again.
+  writeTemplateBase(
+    targetDir,
+    tempDir,
+    diffs
+      .filter((d) => d.status !== 'removed' && d.category === 'safe' && !d.skipped && !declined.has(d.path))
+      .map((d) => d.path)
+  );
+  removeTemplateBase(targetDir, staleBase);
+
   // 6b. Merge package.json dependencies
-  const hasDepChanges =
-    Object.keys(manifest.dependencies.update).length > 0 ||
-    manifest.dependencies.remove.length > 0 ||
-    Object.keys(manifest.dependencies.add).length > 0;
+  if (packageMerge && hasDepChanges) {
+    writePackageJson(targetDir, packageMerge.pkg);
+  }
 
-  if (hasDepChanges) {
-    mergePackageJsonDeps(targetDir, manifest);
+  // 6c. Apply accepted codemods; one that finds nothing left to change isn't counted
+  const appliedCodemods: CodemodPlan[] = [];
+  for (const plan of accepted) {
+    const changes = applyCodemod(targetDir, plan);
+    if (changes.length > 0) appliedCodemods.push({ step: plan.step, changes });
+  }
+  const codemodPaths = [...new Set(appliedCodemods.flatMap((plan) => plan.changes.map((c) => c.path)))];
+
+  // 6d. Update .velocity.json, remembering skipped files
+  const previouslySkipped = config.upgrade?.skipped ?? {};
+  const skipped: Record<string, string> = {};
+  for (const d of diffs) {
+    if (d.skipped) skipped[d.path] = previouslySkipped[d.path]!;
+  }
+  for (const [path, decision] of decisions) {
+    if (decision === 'skip') skipped[path] = hashTemplateFile(tempDir, path);
   }
 
-  // 6c. Update .velocity.json
   writeVelocityConfig(targetDir, {
     ...config,
     version: manifest.version,
     updatedAt: new Date().toISOString().slice(0, 10),
+    template,
+    upgrade: withSkippedFiles(config.upgrade, skipped),
   });
 
   spinner.stop('Changes applied');
 
   // Report results
-  if (modified > 0) {
-    p.log.success(pc.green(`Updated ${modified} framework file${modified !== 1 ? 's' : ''}`));
+  const updatedCount = applied.filter((f) => f.diff.status === 'modified').length;
+  const addedCount = applied.filter((f) => f.diff.status === 'added').length;
+  if (updatedCount > 0) {
+    log.success(pc.green(`Updated ${updatedCount} framework file${updatedCount !== 1 ? 's' : ''}`));
   }
-  if (added > 0) {
-    p.log.success(pc.green(`Added ${added} new file${added !== 1 ? 's' : ''}`));
+  if (addedCount > 0) {
+    log.success(pc.green(`Added ${addedCount} new file${addedCount !== 1 ? 's' : ''}`));
   }
+  if (declined.size > 0) {
+    const skippedCount = [...decisions.values()].filter((d) => d === 'skip').length;
+    const deferredCount = declined.size - skippedCount;
+    log.info(
+      pc.dim(
+        `Kept your version of ${declined.size} file${declined.size !== 1 ? 's' : ''}` +
+        ` (${skippedCount} skipped, ${deferredCount} deferred)`
+      )
+    );
+  }
+  if (movedFrom.length > 0) {
+    log.success(pc.green(`Moved ${movedFrom.length} renamed file${movedFrom.length !== 1 ? 's' : ''}`));
+  }
+  if (toDelete.length > 0) {
+    log.success(pc.green(`Deleted ${toDelete.length} file${toDelete.length !== 1 ? 's' : ''} removed from the template`));
+  }
+  if (merged > 0) {
+    log.success(pc.green(`Merged your changes into ${merged} customized file${merged !== 1 ? 's' : ''}`));
+  }
+  showMergeConflicts(conflicted);
   if (hasDepChanges) {
-    p.log.success(pc.green('Updated package.json dependencies'));
+    log.success(pc.green('Updated package.json'));
   }
-  p.log.success(pc.green('Updated .velocity.json'));
+  showDependencyTable(dependencyChanges, fieldChanges);
+  if (appliedCodemods.length > 0) {
+    const count = appliedCodemods.length;
+    const fileCount = codemodPaths.length;
+    log.success(
+      pc.green(`Applied ${count} codemod${count !== 1 ? 's' : ''} to ${fileCount} file${fileCount !== 1 ? 's' : ''}`)
+    );
+  }
+  log.success(pc.green('Updated .velocity.json'));
+  log.info(pc.dim(`Backup saved as ${backup.id}. Run \`upgrade --undo\` to restore it.`));
+
+  // 7. Install, type-check and build; undo everything if any step fails
+  const packageManager = detectProjectPackageManager(targetDir) ?? 'npm';
+
+  if (verify) {
+    spinner.start('Verifying upgrade...');
+    const result = await verifyProject(targetDir, packageManager, (name) => spinner.message(`${name}...`));
+
+    if (!result.passed) {
+      spinner.stop('Verification failed');
+      restoreBackup(targetDir, backup);
+      if (originalRef) {
+        await abandonBranch(targetDir, branchName, originalRef).catch(() => {});
+        report.branch = null;
+      }
+      report.verification = { ...result, rolledBack: true };
+      showVerificationResult(report.verification, getInstallCommand(packageManager));
+      if (json) printJson({ ...report, backup: backup.id });
+      cleanup(tempDir);
+      process.exit(1);
+    }
 
-  // 7. Scan for migration patterns and show manual steps
-  const matchResults = scanForMigrationPatterns(targetDir, manifest.migrations);
-  showManualSteps(manifest.migrations, matchResults);
+    spinner.stop('Verification passed');
+    report.verification = { ...result, rolledBack: false };
+    showVerificationResult(report.verification, getInstallCommand(packageManager));
+  }
 
-  // 8. Show outro
-  showUpgradeOutro(hasDepChanges);
+  // 8. Commit framework files, dependencies and codemods separately
+  if (branch) {
+    spinner.start(`Committing to ${branchName}...`);
+    try {
+      const messages = buildCommitMessages({
+        fromVersion: config.version,
+        toVersion: manifest.version,
+        releases,
+        applied,
+        toDelete,
+        conflicted,
+        dependencies: dependencyChanges,
+        fields: fieldChanges,
+        codemods: appliedCodemods,
+      });
+      let commits = 0;
+      if (await commitPaths(targetDir, frameworkPaths, messages.framework)) commits++;
+      if (await commitPaths(targetDir, dependencyPaths, messages.dependencies)) commits++;
+      if (await commitPaths(targetDir, codemodPaths, messages.codemods)) commits++;
+      spinner.stop(`Committed ${commits} change set${commits !== 1 ? 's' : ''} to ${branchName}`);
+    } catch (error) {
+      spinner.stop('Could not commit the upgrade');
+      log.warn(
+        pc.yellow(
+          `Changes are applied but uncommitted on ${branchName}.\n` +
+          (error instanceof Error ? error.message : '')
+        )
+      );
+    }
+  }
+
+  // 9. Scan for migration patterns and show manual steps
+  const matchResults = scanForMigrationPatterns(targetDir, manifest.migrations, isUntouchable);
+  const acceptedSteps = new Set(accepted.map((plan) => plan.step));
+  const appliedSteps = new Set(appliedCodemods.map((plan) => plan.step));
+  const manualSteps = selectManualSteps(manifest.migrations, codemods, acceptedSteps, matchResults);
+  showManualSteps(manualSteps, matchResults);
+
+  // 10. Show outro
+  showUpgradeOutro(hasDepChanges && !verify ? getInstallCommand(packageManager) : null);
+
+  if (json) {
+    printJson({
+      ...report,
+      applied: true,
+      migrations: reportMigrations(manifest.migrations, matchResults, appliedSteps),
+      backup: backup.id,
+    });
+  }
 
   cleanup(tempDir);
 }
 
+/**
+ * Read-only check against the latest manifest, for CI.
+ * Fetches only velocity-manifest.json and exits non-zero when the project is
+ * behind (CHECK_EXIT_OUTDATED) or the CLI is too old (CHECK_EXIT_CLI_OUTDATED).
+ */
+export async function checkForUpgrade(options: {
+  targetDir: string;
+  to?: string;
+  json?: boolean;
+  template?: string;
+}): Promise<void> {
+  const { targetDir, to, json = false } = options;
+  setQuietMode(json);
+
+  const config = readVelocityConfig(targetDir);
+  if (!config) {
+    fail(
+      "This doesn't appear to be a Velocity project.\n" +
+      'Run this command from a project created with create-velocity-astro,\n' +
+      'or run `pnpm create velocity-astro adopt` to start tracking an older one.',
+      json
+    );
+  }
+
+  const source = resolveTemplateSource(options.template ?? config.template, json);
+
+  let manifest: UpgradeManifest;
+  try {
+    manifest = await fetchManifest(source, to && await resolveVersionRef(source, to));
+  } catch (error) {
+    fail(error instanceof Error ? error.message : 'Could not fetch manifest', json);
+  }
+
+  const result: UpgradeCheckResult = {
+    currentVersion: config.version,
+    latestVersion: manifest.version,
+    outdated: compareVersions(config.version, manifest.version) < 0,
+    cliVersion: CLI_VERSION,
+    minCliVersion: manifest.minCliVersion,
+    cliOutdated: isVersionLessThan(CLI_VERSION, manifest.minCliVersion),
+  };
+
+  if (json) {
+    printJson(result);
+  } else {
+    showCheckResult(result);
+  }
+
+  if (result.cliOutdated) {
+    process.exit(CHECK_EXIT_CLI_OUTDATED);
+  }
+  if (result.outdated) {
+    process.exit(CHECK_EXIT_OUTDATED);
+  }
+}
+
+/**
+ * Lists pre-upgrade backups for a project.
+ */
+export function listUpgradeBackups(targetDir: string): void {
+  showBackupList(listBackups(targetDir));
+}
+
+/**
+ * Restores a pre-upgrade backup. Defaults to the most recent one.
+ */
+export async function undoUpgrade(options: {
+  targetDir: string;
+  backupId?: string;
+  yes: boolean;
+}): Promise<void> {
+  const { targetDir, backupId, yes } = options;
+  const backups = listBackups(targetDir);
+
+  if (backups.length === 0) {
+    log.error(pc.red('No upgrade backups found in .velocity/backups.'));
+    process.exit(1);
+  }
+
+  const backup = backupId ? backups.find((b) => b.id === backupId) : backups[0];
+  if (!backup) {
+    log.error(
+      pc.red(`Backup "${backupId}" not found. Run \`upgrade --list-backups\` to see available backups.`)
+    );
+    process.exit(1);
+  }
+
+  const proceed = await confirmRestore(backup, yes);
+  if (!proceed) return;
+
+  try {
+    restoreBackup(targetDir, backup);
+  } catch (error) {
+    log.error(pc.red(error instanceof Error ? error.message : 'Failed to restore backup'));
+    process.exit(1);
+  }
+
+  log.success(pc.green(`Restored ${backup.files.length} file${backup.files.length !== 1 ? 's' : ''} from ${backup.id}`));
+  outro(pc.green(`Project is back on v${backup.fromVersion}. Reinstall dependencies if package.json changed.`));
+}
+
 /**
  * Cleans up temporary directory.
  */
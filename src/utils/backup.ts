@@ -0,0 +1,111 @@
+import { existsSync, mkdirSync, copyFileSync, readdirSync, rmSync, writeFileSync } from 'node:fs';
+import { join, dirname } from 'node:path';
+import type { UpgradeBackup, BackupEntry } from '../types.js';
+import { readJson, writeJson } from './fs.js';
+
+const VELOCITY_DIR = '.velocity';
+const BACKUPS_DIR = '.velocity/backups';
+const BACKUP_INFO_FILENAME = 'backup.json';
+
+/**
+ * Returns the directory holding a single backup.
+ */
+export function getBackupDir(projectDir: string, id: string): string {
+  return join(projectDir, BACKUPS_DIR, id);
+}
+
+/**
+ * Keeps backups out of version control (the template base is meant to be committed).
+ */
+function ensureBackupsIgnored(projectDir: string): void {
+  const ignorePath = join(projectDir, VELOCITY_DIR, '.gitignore');
+  if (!existsSync(ignorePath)) {
+    mkdirSync(dirname(ignorePath), { recursive: true });
+    writeFileSync(ignorePath, 'backups/\n');
+  }
+}
+
+/**
+ * Snapshots the given project files into a timestamped backup.
+ * Files that don't exist yet are recorded so a restore can remove them.
+ */
+export function createBackup(
+  projectDir: string,
+  files: string[],
+  versions: { fromVersion: string; toVersion: string }
+): UpgradeBackup {
+  const now = new Date();
+  const id = now.toISOString().replace(/[:.]/g, '-');
+  const backupDir = getBackupDir(projectDir, id);
+  const entries: BackupEntry[] = [];
+
+  ensureBackupsIgnored(projectDir);
+
+  for (const file of [...new Set(files)]) {
+    const src = join(projectDir, file);
+    const existed = existsSync(src);
+
+    if (existed) {
+      const dest = join(backupDir, 'files', file);
+      mkdirSync(dirname(dest), { recursive: true });
+      copyFileSync(src, dest);
+    }
+
+    entries.push({ path: file, existed });
+  }
+
+  const backup: UpgradeBackup = {
+    id,
+    createdAt: now.toISOString(),
+    fromVersion: versions.fromVersion,
+    toVersion: versions.toVersion,
+    files: entries,
+  };
+
+  mkdirSync(backupDir, { recursive: true });
+  writeJson(join(backupDir, BACKUP_INFO_FILENAME), backup);
+
+  return backup;
+}
+
+/**
+ * Lists backups for a project, newest first.
+ */
+export function listBackups(projectDir: string): UpgradeBackup[] {
+  const backupsDir = join(projectDir, BACKUPS_DIR);
+  if (!existsSync(backupsDir)) return [];
+
+  const backups: UpgradeBackup[] = [];
+  for (const entry of readdirSync(backupsDir, { withFileTypes: true })) {
+    const infoPath = join(backupsDir, entry.name, BACKUP_INFO_FILENAME);
+    if (entry.isDirectory() && existsSync(infoPath)) {
+      backups.push(readJson<UpgradeBackup>(infoPath));
+    }
+  }
+
+  return backups.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+/**
+ * Restores project files exactly as they were when the backup was taken.
+ */
+export function restoreBackup(projectDir: string, backup: UpgradeBackup): void {
+  const backupDir = getBackupDir(projectDir, backup.id);
+
+  for (const entry of backup.files) {
+    const dest = join(projectDir, entry.path);
+
+    if (!entry.existed) {
+      rmSync(dest, { force: true });
+      continue;
+    }
+
+    const src = join(backupDir, 'files', entry.path);
+    if (!existsSync(src)) {
+      throw new Error(`Backup ${backup.id} is missing ${entry.path}`);
+    }
+
+    mkdirSync(dirname(dest), { recursive: true });
+    copyFileSync(src, dest);
+  }
+}
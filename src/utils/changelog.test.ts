@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import type { ChangelogEntry } from '../types.js';
+import { changelogFromManifests, parseChangelog, selectChangelog } from './changelog.js';
+
+describe('parseChangelog', () => {
+  it('reads Keep a Changelog, changesets and bare version headings', () => {
+    const markdown = [
+      '# Changelog',
+      '',
+      '## [1.8.0] - 2025-04-01',
+      '',
+      '### Added',
+      '- Tabs component',
+      '',
+      '## v1.7.0 (2025-03-01)',
+      '- Faster builds',
+      '',
+      '## 1.6.0',
+      '- First release',
+    ].join('\n');
+
+    expect(parseChangelog(markdown)).toEqual([
+      { version: '1.8.0', date: '2025-04-01', body: '### Added\n- Tabs component' },
+      { version: '1.7.0', date: '2025-03-01', body: '- Faster builds' },
+      { version: '1.6.0', body: '- First release' },
+    ]);
+  });
+
+  it('ends a release at a heading that is not a version', () => {
+    const markdown = '## Unreleased\n- Work in progress\n\n## 1.7.0\n- Shipped\n\n## Notes\nNot part of 1.7.0';
+
+    expect(parseChangelog(markdown)).toEqual([{ version: '1.7.0', body: '- Shipped' }]);
+  });
+
+  it('keeps pre-release versions and handles CRLF line endings', () => {
+    expect(parseChangelog('## [2.0.0-beta.1]\r\n- Preview\r\n')).toEqual([
+      { version: '2.0.0-beta.1', body: '- Preview' },
+    ]);
+  });
+});
+
+describe('selectChangelog', () => {
+  const entries: ChangelogEntry[] = ['1.9.0', '1.6.0', '1.8.0', '1.7.0'].map((version) => ({
+    version,
+    body: `Notes for ${version}`,
+  }));
+
+  it('excludes the current version and includes the target, oldest first', () => {
+    expect(selectChangelog(entries, '1.6.0', '1.8.0').map((e) => e.version)).toEqual(['1.7.0', '1.8.0']);
+  });
+
+  it('returns nothing when already on the target version', () => {
+    expect(selectChangelog(entries, '1.8.0', '1.8.0')).toEqual([]);
+  });
+});
+
+describe('changelogFromManifests', () => {
+  it('uses manifest notes, skipping releases without any', () => {
+    const manifest = (version: string, notes?: string) => ({
+      version,
+      minCliVersion: '1.0.0',
+      files: { safe: [], protected: [] },
+      dependencies: { update: {}, remove: [], add: {} },
+      migrations: [],
+      ...(notes !== undefined ? { notes } : {}),
+    });
+
+    expect(changelogFromManifests([manifest('1.7.0', ' - Fix \n'), manifest('1.8.0'), manifest('1.9.0', '  ')])).toEqual([
+      { version: '1.7.0', body: '- Fix' },
+    ]);
+  });
+});
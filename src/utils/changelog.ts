@@ -0,0 +1,78 @@
+import { existsSync, readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import type { ChangelogEntry, UpgradeManifest } from '../types.js';
+import { compareVersions } from './semver.js';
+
+const CHANGELOG_FILENAME = 'CHANGELOG.md';
+
+// "## [1.7.0] - 2025-03-01", "## v1.7.0 (2025-03-01)", "## 1.7.0"
+const VERSION_HEADING = /^##\s+\[?v?(\d+\.\d+\.\d+[^\]\s]*)\]?(?:\s*[-–—(]\s*([^)]*?)\)?)?\s*$/;
+
+/**
+ * Splits a Keep a Changelog / changesets style CHANGELOG.md into release sections.
+ * Headings that aren't versions (e.g. "## Unreleased") end the previous section.
+ */
+export function parseChangelog(markdown: string): ChangelogEntry[] {
+  const entries: ChangelogEntry[] = [];
+  let current: { version: string; date?: string; lines: string[] } | null = null;
+
+  const flush = () => {
+    if (current) {
+      entries.push({
+        version: current.version,
+        ...(current.date ? { date: current.date } : {}),
+        body: current.lines.join('\n').trim(),
+      });
+    }
+    current = null;
+  };
+
+  for (const line of markdown.split(/\r?\n/)) {
+    if (/^#{1,2}\s/.test(line)) {
+      flush();
+      const match = VERSION_HEADING.exec(line);
+      if (match) {
+        current = { version: match[1]!, date: match[2]?.trim() || undefined, lines: [] };
+      }
+      continue;
+    }
+    current?.lines.push(line);
+  }
+  flush();
+
+  return entries;
+}
+
+/**
+ * Reads and parses CHANGELOG.md from a template directory.
+ * Returns null if the template doesn't ship one.
+ */
+export function readChangelog(templateDir: string): ChangelogEntry[] | null {
+  const changelogPath = join(templateDir, CHANGELOG_FILENAME);
+  if (!existsSync(changelogPath)) {
+    return null;
+  }
+  return parseChangelog(readFileSync(changelogPath, 'utf-8'));
+}
+
+/**
+ * Builds changelog entries from the release notes embedded in manifests.
+ */
+export function changelogFromManifests(manifests: UpgradeManifest[]): ChangelogEntry[] {
+  return manifests
+    .filter((m) => m.notes?.trim())
+    .map((m) => ({ version: m.version, body: m.notes!.trim() }));
+}
+
+/**
+ * Keeps the releases after `fromVersion` up to and including `toVersion`, oldest first.
+ */
+export function selectChangelog(
+  entries: ChangelogEntry[],
+  fromVersion: string,
+  toVersion: string
+): ChangelogEntry[] {
+  return entries
+    .filter((e) => compareVersions(e.version, fromVersion) > 0 && compareVersions(e.version, toVersion) <= 0)
+    .sort((a, b) => compareVersions(a.version, b.version));
+}
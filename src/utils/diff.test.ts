@@ -0,0 +1,105 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { dirname, join } from 'node:path';
+import type { UpgradeManifest } from '../types.js';
+import { diffProjects, expandPaths } from './diff.js';
+
+function writeFiles(dir: string, files: Record<string, string>): void {
+  for (const [path, content] of Object.entries(files)) {
+    mkdirSync(dirname(join(dir, path)), { recursive: true });
+    writeFileSync(join(dir, path), content);
+  }
+}
+
+describe('expandPaths', () => {
+  let freshDir: string;
+
+  beforeEach(() => {
+    freshDir = mkdtempSync(join(tmpdir(), 'velocity-diff-'));
+    writeFiles(freshDir, {
+      'src/pages/blog/[...slug].astro': '',
+      'src/pages/blog/s.astro': '',
+      'src/pages/[lang]/index.astro': '',
+      'src/pages/l/index.astro': '',
+      'src/layouts/PageLayout.astro': '',
+    });
+  });
+
+  afterEach(() => {
+    rmSync(freshDir, { recursive: true, force: true });
+  });
+
+  it('keeps bracketed Astro routes as literal paths', () => {
+    expect(expandPaths(['src/pages/blog/[...slug].astro', 'src/pages/[lang]/'], freshDir)).toEqual([
+      'src/pages/blog/[...slug].astro',
+      'src/pages/[lang]/index.astro',
+    ]);
+  });
+
+  it('expands directories and globs', () => {
+    expect(expandPaths(['src/layouts', 'src/pages/*/index.astro'], freshDir).sort()).toEqual([
+      'src/layouts/PageLayout.astro',
+      'src/pages/[lang]/index.astro',
+      'src/pages/l/index.astro',
+    ]);
+  });
+});
+
+describe('diffProjects', () => {
+  let projectDir: string;
+  let freshDir: string;
+  let previousDir: string;
+
+  const manifest: UpgradeManifest = {
+    version: '1.8.0',
+    minCliVersion: '1.0.0',
+    files: { safe: ['src/lib/'], protected: [] },
+    dependencies: { update: {}, remove: [], add: {} },
+    migrations: [],
+  };
+
+  beforeEach(() => {
+    projectDir = mkdtempSync(join(tmpdir(), 'velocity-diff-project-'));
+    freshDir = mkdtempSync(join(tmpdir(), 'velocity-diff-fresh-'));
+    previousDir = mkdtempSync(join(tmpdir(), 'velocity-diff-previous-'));
+
+    const v17 = { 'src/lib/cn.ts': 'cn', 'src/lib/old.ts': 'old', 'src/lib/legacy.ts': 'legacy' };
+    writeFiles(previousDir, v17);
+    writeFiles(projectDir, { ...v17, 'src/lib/legacy.ts': 'legacy, edited', 'src/lib/mine.ts': 'mine' });
+    writeFiles(freshDir, { 'src/lib/cn.ts': 'cn' });
+  });
+
+  afterEach(() => {
+    for (const dir of [projectDir, freshDir, previousDir]) {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  const removed = (diffs: ReturnType<typeof diffProjects>) =>
+    diffs.filter((d) => d.status === 'removed').map((d) => [d.path, d.change]);
+
+  it('finds removed files from the previous template when there is no snapshot', () => {
+    const diffs = diffProjects(projectDir, freshDir, manifest, {
+      previous: { dir: previousDir, files: expandPaths(['src/lib/'], previousDir) },
+    });
+
+    expect(removed(diffs).sort()).toEqual([
+      ['src/lib/legacy.ts', 'local'],
+      ['src/lib/old.ts', 'template'],
+    ]);
+  });
+
+  it('prefers the .velocity/base snapshot over the previous template', () => {
+    writeFiles(projectDir, { '.velocity/base/src/lib/old.ts': 'old' });
+    const diffs = diffProjects(projectDir, freshDir, manifest, {
+      previous: { dir: previousDir, files: expandPaths(['src/lib/'], previousDir) },
+    });
+
+    expect(removed(diffs)).toEqual([['src/lib/old.ts', 'template']]);
+  });
+
+  it('finds no removals without a snapshot or previous template', () => {
+    expect(removed(diffProjects(projectDir, freshDir, manifest))).toEqual([]);
+  });
+});
@@ -1,6 +1,20 @@
 import { existsSync, readFileSync, readdirSync, statSync } from 'node:fs';
 import { join, relative } from 'node:path';
 import type { UpgradeManifest, FileDiff } from '../types.js';
+import { readTemplateBase, getTemplateBaseDir } from './template-base.js';
+import { isGlob, globToRegExp, createMatcher } from './glob.js';
+
+export interface DiffOptions {
+  // Decides whether a template file missing from the project should be added
+  canAdd?: (filePath: string) => boolean;
+  // Project globs the upgrade skips entirely
+  ignore?: string[];
+  // Project globs that are diffed and shown but never written
+  protect?: string[];
+  // The template version the project is on and its framework files, used to
+  // find removed files when the project has no .velocity/base snapshot
+  previous?: { dir: string; files: string[] };
+}
 
 /**
  * Recursively collects all file paths under a directory, relative to baseDir.
@@ -24,16 +38,23 @@ function walkDir(dir: string, baseDir: string): string[] {
 /**
  * Expands a list of file/directory paths into individual file paths.
  * If a path ends with "/" or is a directory in freshDir, expands to all files within.
+ * Glob patterns (e.g. "src/components/**\/*.astro") are matched against every file.
  */
-function expandPaths(paths: string[], freshDir: string): string[] {
+export function expandPaths(paths: string[], freshDir: string): string[] {
   const files: string[] = [];
+  let allFiles: string[] | null = null;
 
   for (const p of paths) {
     const fullPath = join(freshDir, p);
 
-    if (p.endsWith('/') || (existsSync(fullPath) && statSync(fullPath).isDirectory())) {
-      files.push(...walkDir(fullPath, freshDir));
-    } else {
+    // Paths that exist are literal, even with glob characters like Astro's [slug] routes
+    if (existsSync(fullPath)) {
+      files.push(...(statSync(fullPath).isDirectory() ? walkDir(fullPath, freshDir) : [p]));
+    } else if (isGlob(p)) {
+      allFiles ??= walkDir(freshDir, freshDir);
+      const regex = globToRegExp(p);
+      files.push(...allFiles.filter((file) => regex.test(file)));
+    } else if (!p.endsWith('/')) {
       files.push(p);
     }
   }
@@ -43,37 +64,103 @@ function expandPaths(paths: string[], freshDir: string): string[] {
 
 /**
  * Compares files between the current project and a fresh template download.
- * Only examines files listed in the manifest's "safe" list.
+ * Only examines files listed in the manifest's "safe" list, minus ignored ones.
+ * Files matching the manifest's or project's protected patterns are diffed
+ * with category "protected" so they can be shown but never written.
+ * Modified files are classified against the project's recorded template base
+ * so user customizations can be told apart from upstream changes. Files in the
+ * base (or, without one, in `options.previous`) that the template no longer
+ * ships are reported as removed, and files the manifest renamed are diffed
+ * against the user's copy at the old path.
  */
 export function diffProjects(
   currentDir: string,
   freshDir: string,
-  manifest: UpgradeManifest
+  manifest: UpgradeManifest,
+  options: DiffOptions = {}
 ): FileDiff[] {
   const diffs: FileDiff[] = [];
-  const safeFiles = expandPaths(manifest.files.safe, freshDir);
+  const baseDirs = [currentDir, freshDir];
+  const isIgnored = createMatcher(options.ignore ?? [], baseDirs);
+  const isProtected = createMatcher([...manifest.files.protected, ...(options.protect ?? [])], baseDirs);
+  const safeFiles = expandPaths(manifest.files.safe, freshDir).filter((f) => !isIgnored(f));
+
+  // New path → old path, for renamed files the user still has at the old location
+  const renamedFrom = new Map<string, string>();
+  for (const [from, to] of Object.entries(manifest.files.renames ?? {})) {
+    if (existsSync(join(currentDir, from)) && !existsSync(join(currentDir, to))) {
+      renamedFrom.set(to, from);
+    }
+  }
 
   for (const filePath of safeFiles) {
-    const currentPath = join(currentDir, filePath);
+    const from = renamedFrom.get(filePath);
+    const category = isProtected(filePath) ? 'protected' : 'safe';
+    const currentPath = join(currentDir, from ?? filePath);
     const freshPath = join(freshDir, filePath);
 
     // Fresh template file doesn't exist (shouldn't happen, but handle gracefully)
     if (!existsSync(freshPath)) continue;
 
     if (!existsSync(currentPath)) {
-      diffs.push({ path: filePath, status: 'added', category: 'safe' });
-    } else {
-      const currentContent = readFileSync(currentPath);
-      const freshContent = readFileSync(freshPath);
-
-      if (Buffer.compare(currentContent, freshContent) === 0) {
-        diffs.push({ path: filePath, status: 'unchanged', category: 'safe' });
-      } else {
-        diffs.push({ path: filePath, status: 'modified', category: 'safe' });
+      if (options.canAdd?.(filePath) ?? true) {
+        diffs.push({ path: filePath, status: 'added', category, change: 'template' });
       }
+      continue;
+    }
+
+    const currentContent = readFileSync(currentPath);
+    const freshContent = readFileSync(freshPath);
+
+    if (Buffer.compare(currentContent, freshContent) === 0) {
+      diffs.push(
+        from
+          ? { path: filePath, status: 'modified', category, change: 'template', from }
+          : { path: filePath, status: 'unchanged', category }
+      );
+      continue;
+    }
+
+    const baseContent =
+      (from && readTemplateBase(currentDir, from)) || readTemplateBase(currentDir, filePath);
+
+    if (!baseContent) {
+      diffs.push({ path: filePath, status: 'modified', category, change: 'unknown', from });
+    } else if (Buffer.compare(baseContent, currentContent) === 0) {
+      diffs.push({ path: filePath, status: 'modified', category, change: 'template', from });
+    } else if (Buffer.compare(baseContent, freshContent) === 0 && !from) {
+      // Customized locally, template unchanged — nothing to apply
+      diffs.push({ path: filePath, status: 'unchanged', category, change: 'local' });
+    } else {
+      diffs.push({ path: filePath, status: 'modified', category, change: 'both', from });
     }
   }
 
+  // Files the previous template shipped but the new one doesn't
+  const baseDir = getTemplateBaseDir(currentDir);
+  const previous = existsSync(baseDir) || !options.previous
+    ? { dir: baseDir, files: walkDir(baseDir, baseDir) }
+    : options.previous;
+  const freshFiles = new Set(safeFiles);
+  const moved = new Set(renamedFrom.values());
+
+  for (const filePath of previous.files) {
+    if (freshFiles.has(filePath) || moved.has(filePath) || isIgnored(filePath)) continue;
+    if (existsSync(join(freshDir, filePath))) continue;
+
+    const currentPath = join(currentDir, filePath);
+    const previousPath = join(previous.dir, filePath);
+    if (!existsSync(currentPath) || !existsSync(previousPath)) continue;
+
+    const untouched = Buffer.compare(readFileSync(previousPath), readFileSync(currentPath)) === 0;
+    diffs.push({
+      path: filePath,
+      status: 'removed',
+      category: isProtected(filePath) ? 'protected' : 'safe',
+      change: untouched ? 'template' : 'local',
+    });
+  }
+
   return diffs;
 }
 
@@ -84,12 +171,36 @@ export function summarizeDiffs(diffs: FileDiff[]): {
   added: number;
   modified: number;
   unchanged: number;
+  removed: number;
+  renamed: number;
+  needsMerge: number;
+  customized: number;
+  skipped: number;
+  protectedChanges: number;
 } {
   let added = 0;
   let modified = 0;
   let unchanged = 0;
+  let removed = 0;
+  let renamed = 0;
+  let needsMerge = 0;
+  let customized = 0;
+  let skipped = 0;
+  let protectedChanges = 0;
 
   for (const diff of diffs) {
+    if (diff.category === 'protected') {
+      if (diff.status !== 'unchanged') protectedChanges++;
+      continue;
+    }
+    if (diff.skipped) {
+      skipped++;
+      continue;
+    }
+    if (diff.change === 'both') needsMerge++;
+    if (diff.change === 'local' && diff.status !== 'removed') customized++;
+    if (diff.from) renamed++;
+
     switch (diff.status) {
       case 'added':
         added++;
@@ -100,8 +211,11 @@ export function summarizeDiffs(diffs: FileDiff[]): {
       case 'unchanged':
         unchanged++;
         break;
+      case 'removed':
+        removed++;
+        break;
     }
   }
 
-  return { added, modified, unchanged };
+  return { added, modified, unchanged, removed, renamed, needsMerge, customized, skipped, protectedChanges };
 }
@@ -1,3 +1,5 @@
+import { existsSync } from 'node:fs';
+import { join } from 'node:path';
 import { execa } from 'execa';
 
 /**
@@ -28,3 +30,77 @@ export async function isGitInstalled(): Promise<boolean> {
     return false;
   }
 }
+
+/**
+ * Checks if a directory is inside a git work tree
+ */
+export async function isGitRepo(targetDir: string): Promise<boolean> {
+  try {
+    const { stdout } = await execa('git', ['rev-parse', '--is-inside-work-tree'], { cwd: targetDir });
+    return stdout.trim() === 'true';
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Gets the checked-out branch name, or the commit sha when HEAD is detached
+ */
+export async function getCurrentRef(targetDir: string): Promise<string> {
+  const branch = await execa('git', ['symbolic-ref', '--short', 'HEAD'], { cwd: targetDir, reject: false });
+  if (branch.exitCode === 0 && branch.stdout.trim()) {
+    return branch.stdout.trim();
+  }
+  const { stdout } = await execa('git', ['rev-parse', 'HEAD'], { cwd: targetDir });
+  return stdout.trim();
+}
+
+/**
+ * Checks if a local branch exists
+ */
+export async function branchExists(targetDir: string, branch: string): Promise<boolean> {
+  try {
+    await execa('git', ['show-ref', '--verify', '--quiet', `refs/heads/${branch}`], { cwd: targetDir });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Creates a branch from the current HEAD and checks it out
+ */
+export async function createBranch(targetDir: string, branch: string): Promise<void> {
+  await execa('git', ['checkout', '-b', branch], { cwd: targetDir });
+}
+
+/**
+ * Switches back to `returnTo` and deletes `branch`
+ */
+export async function abandonBranch(targetDir: string, branch: string, returnTo: string): Promise<void> {
+  await execa('git', ['checkout', returnTo], { cwd: targetDir });
+  await execa('git', ['branch', '-D', branch], { cwd: targetDir });
+}
+
+/**
+ * Stages the given paths (including deletions) and commits them.
+ * Paths that neither exist nor are tracked are ignored.
+ * Returns false without committing when none of them changed.
+ */
+export async function commitPaths(targetDir: string, paths: string[], message: string): Promise<boolean> {
+  if (paths.length === 0) return false;
+
+  const { stdout } = await execa('git', ['ls-files', '--', ...paths], { cwd: targetDir });
+  const tracked = new Set(stdout.split('\n').filter(Boolean));
+  const stageable = paths.filter((p) => tracked.has(p) || existsSync(join(targetDir, p)));
+  if (stageable.length === 0) return false;
+
+  // Ignored paths make `git add` exit non-zero but the rest are still staged
+  await execa('git', ['add', '-A', '--', ...stageable], { cwd: targetDir, reject: false });
+
+  const staged = await execa('git', ['diff', '--cached', '--quiet'], { cwd: targetDir, reject: false });
+  if (staged.exitCode === 0) return false;
+
+  await execa('git', ['commit', '-m', message], { cwd: targetDir });
+  return true;
+}
@@ -0,0 +1,112 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { createMatcher, globToRegExp, isGlob, validateGlob } from './glob.js';
+
+describe('isGlob', () => {
+  it('detects glob syntax', () => {
+    expect(['src/*.ts', 'a?', '{a,b}', '[ab]'].every(isGlob)).toBe(true);
+    expect(isGlob('src/pages/\\[lang\\]/')).toBe(true);
+    expect(isGlob('src/layouts/')).toBe(false);
+  });
+});
+
+describe('validateGlob', () => {
+  it('rejects unclosed braces and dangling escapes', () => {
+    expect(validateGlob('src/{a,b')).toEqual({
+      valid: false,
+      message: 'Invalid pattern "src/{a,b": missing closing "}"',
+    });
+    expect(validateGlob('src/a\\').valid).toBe(false);
+    expect(validateGlob('src/\\{a,b').valid).toBe(true);
+    expect(validateGlob('src/{a,b}').valid).toBe(true);
+  });
+});
+
+describe('globToRegExp', () => {
+  const matches = (pattern: string, path: string) => globToRegExp(pattern).test(path);
+
+  it('keeps * within a path segment', () => {
+    expect(matches('src/*.astro', 'src/Page.astro')).toBe(true);
+    expect(matches('src/*.astro', 'src/layouts/Page.astro')).toBe(false);
+  });
+
+  it('lets ** span any number of directories', () => {
+    expect(matches('src/**/*.astro', 'src/Page.astro')).toBe(true);
+    expect(matches('src/**/*.astro', 'src/components/ui/Button/Button.astro')).toBe(true);
+    expect(matches('src/**', 'src/a/b/c.ts')).toBe(true);
+  });
+
+  it('treats a trailing slash as the whole directory', () => {
+    expect(matches('src/components/ui/', 'src/components/ui/Button/Button.astro')).toBe(true);
+    expect(matches('src/components/ui/', 'src/components/uikit/x.ts')).toBe(false);
+  });
+
+  it('supports ?, alternatives and character classes', () => {
+    expect(matches('src/?.ts', 'src/a.ts')).toBe(true);
+    expect(matches('src/?.ts', 'src/ab.ts')).toBe(false);
+    expect(matches('src/*.{ts,tsx}', 'src/a.tsx')).toBe(true);
+    expect(matches('src/*.{ts,tsx}', 'src/a.js')).toBe(false);
+    expect(matches('v[0-9].md', 'v2.md')).toBe(true);
+    expect(matches('v[!0-9].md', 'v2.md')).toBe(false);
+  });
+
+  it('escapes regex characters in literal parts', () => {
+    expect(matches('src/file.ts', 'src/fileXts')).toBe(false);
+    expect(matches('src/(group)/*.ts', 'src/(group)/a.ts')).toBe(true);
+  });
+
+  it('takes backslash-escaped characters literally', () => {
+    expect(matches('src/pages/\\[lang\\]/', 'src/pages/[lang]/index.astro')).toBe(true);
+    expect(matches('src/pages/\\[lang\\]/', 'src/pages/l/index.astro')).toBe(false);
+    expect(matches('src/\\*.ts', 'src/*.ts')).toBe(true);
+    expect(matches('src/\\*.ts', 'src/a.ts')).toBe(false);
+  });
+
+  it('throws a readable error for malformed braces', () => {
+    expect(() => globToRegExp('src/{a,b')).toThrowError('Invalid pattern "src/{a,b": missing closing "}"');
+  });
+});
+
+describe('createMatcher', () => {
+  it('matches plain files, directories and globs', () => {
+    const matcher = createMatcher(['tsconfig.json', 'src/layouts', 'src/**/*.test.ts']);
+
+    expect(matcher('tsconfig.json')).toBe(true);
+    expect(matcher('src/layouts/PageLayout.astro')).toBe(true);
+    expect(matcher('src/layoutsX/a.astro')).toBe(false);
+    expect(matcher('src/lib/cn.test.ts')).toBe(true);
+    expect(matcher('src/lib/cn.ts')).toBe(false);
+  });
+
+  describe('with Astro route paths', () => {
+    let dir: string;
+
+    beforeEach(() => {
+      dir = mkdtempSync(join(tmpdir(), 'velocity-glob-'));
+      mkdirSync(join(dir, 'src/pages/blog'), { recursive: true });
+      mkdirSync(join(dir, 'src/pages/[lang]'), { recursive: true });
+      writeFileSync(join(dir, 'src/pages/blog/[...slug].astro'), '');
+    });
+
+    afterEach(() => {
+      rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('matches bracketed paths literally when they exist', () => {
+      const matcher = createMatcher(['src/pages/blog/[...slug].astro', 'src/pages/[lang]/'], [dir]);
+
+      expect(matcher('src/pages/blog/[...slug].astro')).toBe(true);
+      expect(matcher('src/pages/[lang]/index.astro')).toBe(true);
+      expect(matcher('src/pages/blog/s.astro')).toBe(false);
+      expect(matcher('src/pages/l/index.astro')).toBe(false);
+    });
+
+    it('still matches the literal path when it is not on disk', () => {
+      const matcher = createMatcher(['src/pages/[page].astro'], [dir]);
+
+      expect(matcher('src/pages/[page].astro')).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,138 @@
+import { existsSync } from 'node:fs';
+import { join } from 'node:path';
+
+/**
+ * Checks if a path pattern uses glob syntax (*, ?, {a,b} or [abc]) or
+ * escapes one of those characters with a backslash.
+ */
+export function isGlob(pattern: string): boolean {
+  return /[*?{[\\]/.test(pattern);
+}
+
+/**
+ * Checks a glob pattern for syntax globToRegExp can't convert.
+ */
+export function validateGlob(pattern: string): { valid: boolean; message?: string } {
+  let braceDepth = 0;
+
+  for (let i = 0; i < pattern.length; i++) {
+    const ch = pattern[i];
+    if (ch === '\\') {
+      if (i === pattern.length - 1) {
+        return { valid: false, message: `Invalid pattern "${pattern}": nothing to escape after "\\"` };
+      }
+      i++;
+    } else if (ch === '{') {
+      braceDepth++;
+    } else if (ch === '}' && braceDepth > 0) {
+      braceDepth--;
+    }
+  }
+
+  if (braceDepth > 0) {
+    return { valid: false, message: `Invalid pattern "${pattern}": missing closing "}"` };
+  }
+  return { valid: true };
+}
+
+/**
+ * Converts a glob pattern into a regular expression matching relative paths.
+ *
+ * Supports `*` (within a path segment), `**` (any number of segments),
+ * `?`, `{a,b}` alternatives and `[abc]` character classes. A backslash
+ * makes the next character literal, e.g. `src/pages/\[lang\]/`. A trailing
+ * "/" matches everything inside that directory, like the manifest's plain paths.
+ * Throws on malformed patterns (see validateGlob).
+ */
+export function globToRegExp(pattern: string): RegExp {
+  const { valid, message } = validateGlob(pattern);
+  if (!valid) {
+    throw new Error(message);
+  }
+
+  const source = pattern.endsWith('/') ? `${pattern}**` : pattern;
+  let regex = '';
+  let braceDepth = 0;
+
+  for (let i = 0; i < source.length; i++) {
+    const ch = source[i]!;
+
+    if (ch === '\\') {
+      regex += escapeRegExp(source[++i]!);
+    } else if (ch === '*') {
+      if (source[i + 1] === '*') {
+        // "**/" matches zero or more directories; a trailing "**" matches anything
+        if (source[i + 2] === '/') {
+          regex += '(?:.*/)?';
+          i += 2;
+        } else {
+          regex += '.*';
+          i += 1;
+        }
+      } else {
+        regex += '[^/]*';
+      }
+    } else if (ch === '?') {
+      regex += '[^/]';
+    } else if (ch === '{') {
+      braceDepth++;
+      regex += '(?:';
+    } else if (ch === '}' && braceDepth > 0) {
+      braceDepth--;
+      regex += ')';
+    } else if (ch === ',' && braceDepth > 0) {
+      regex += '|';
+    } else if (ch === '[') {
+      const end = source.indexOf(']', i + 1);
+      if (end === -1) {
+        regex += '\\[';
+      } else {
+        const body = source.slice(i + 1, end).replace(/^!/, '^').replace(/\\/g, '\\\\');
+        regex += `[${body}]`;
+        i = end;
+      }
+    } else {
+      regex += escapeRegExp(ch);
+    }
+  }
+
+  return new RegExp(`^${regex}$`);
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Checks whether a pattern names a path that exists in one of the given
+ * directories. Such patterns are taken literally even if they look like
+ * globs, so Astro routes like `src/pages/[lang]/` match themselves.
+ */
+export function isExistingPath(pattern: string, baseDirs: string[]): boolean {
+  return baseDirs.some((dir) => existsSync(join(dir, pattern)));
+}
+
+/**
+ * Returns a predicate that checks relative paths against a list of patterns.
+ * Every pattern matches its literal path: the file itself or, for directories,
+ * anything inside them. Patterns with glob syntax also match as globs, unless
+ * the literal path exists in one of `baseDirs`.
+ */
+export function createMatcher(
+  patterns: string[],
+  baseDirs: string[] = []
+): (filePath: string) => boolean {
+  const matchers = patterns.map((pattern) => {
+    const literal = pattern.replace(/\/+$/, '');
+    const matchesLiteral = (filePath: string) =>
+      filePath === literal || filePath.startsWith(`${literal}/`);
+
+    if ((isGlob(pattern) || pattern.endsWith('/')) && !isExistingPath(pattern, baseDirs)) {
+      const regex = globToRegExp(pattern);
+      return (filePath: string) => matchesLiteral(filePath) || regex.test(filePath);
+    }
+    return matchesLiteral;
+  });
+
+  return (filePath) => matchers.some((matches) => matches(filePath));
+}
@@ -0,0 +1,112 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { UpgradeManifest } from '../types.js';
+import { combineManifests, resolveVersionRef } from './manifest.js';
+import { parseTemplateSource } from './template-source.js';
+
+function manifest(version: string, overrides: Partial<UpgradeManifest> = {}): UpgradeManifest {
+  return {
+    version,
+    minCliVersion: '1.0.0',
+    files: { safe: [`src/v${version}/`], protected: [] },
+    dependencies: { update: {}, remove: [], add: {} },
+    migrations: [],
+    ...overrides,
+  };
+}
+
+describe('combineManifests', () => {
+  it('throws without manifests', () => {
+    expect(() => combineManifests([])).toThrowError('No manifests to combine');
+  });
+
+  it('takes the version and file lists from the latest release', () => {
+    const combined = combineManifests([manifest('1.7.0'), manifest('1.8.0')]);
+
+    expect(combined.version).toBe('1.8.0');
+    expect(combined.files.safe).toEqual(['src/v1.8.0/']);
+  });
+
+  it('requires the highest minimum CLI version', () => {
+    const combined = combineManifests([
+      manifest('1.7.0', { minCliVersion: '1.6.10' }),
+      manifest('1.8.0', { minCliVersion: '1.6.2' }),
+    ]);
+
+    expect(combined.minCliVersion).toBe('1.6.10');
+  });
+
+  it('replays dependency operations in release order', () => {
+    const combined = combineManifests([
+      manifest('1.7.0', {
+        dependencies: { update: { astro: '^5.1.0' }, remove: ['old-lib'], add: { zod: '^3.0.0' } },
+      }),
+      manifest('1.8.0', {
+        dependencies: { update: { astro: '^6.0.0', zod: '^4.0.0' }, remove: ['astro-icon'], add: { 'old-lib': '^2.0.0' } },
+      }),
+    ]);
+
+    expect(combined.dependencies).toEqual({
+      update: { astro: '^6.0.0' },
+      // Added earlier in the range, so it's still an addition for the project
+      add: { zod: '^4.0.0', 'old-lib': '^2.0.0' },
+      remove: ['astro-icon'],
+    });
+  });
+
+  it('chains renames so files moved twice go straight to their final path', () => {
+    const combined = combineManifests([
+      manifest('1.7.0', { files: { safe: [], protected: [], renames: { 'a.ts': 'b.ts' } } }),
+      manifest('1.8.0', { files: { safe: [], protected: [], renames: { 'b.ts': 'c.ts' } } }),
+    ]);
+
+    expect(combined.files.renames).toEqual({ 'a.ts': 'c.ts', 'b.ts': 'c.ts' });
+  });
+
+  it('keeps the migrations of every release, tagged with their version', () => {
+    const step = { title: 'Rename prop', description: '' };
+    const combined = combineManifests([
+      manifest('1.7.0', { migrations: [step] }),
+      manifest('1.8.0', { migrations: [{ ...step, title: 'Move file' }], merge: ['scripts'] }),
+    ]);
+
+    expect(combined.migrations.map((m) => [m.title, m.version])).toEqual([
+      ['Rename prop', '1.7.0'],
+      ['Move file', '1.8.0'],
+    ]);
+    expect(combined.merge).toEqual(['scripts']);
+  });
+});
+
+describe('resolveVersionRef', () => {
+  const source = parseTemplateSource('gh:acme/template');
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  function stubTags(names: string[]): void {
+    vi.stubGlobal('fetch', vi.fn(async () => Response.json(names.map((name) => ({ name })))));
+  }
+
+  it('maps a bare or prefixed version to its release tag', async () => {
+    stubTags(['v1.7.0', 'v1.8.0', 'next']);
+
+    expect(await resolveVersionRef(source, '1.8.0')).toBe('v1.8.0');
+    expect(await resolveVersionRef(source, 'v1.8.0')).toBe('v1.8.0');
+  });
+
+  it('leaves branches, SHAs and untagged versions alone', async () => {
+    stubTags(['1.7.0']);
+
+    expect(await resolveVersionRef(source, 'v1.7.0')).toBe('1.7.0');
+    expect(await resolveVersionRef(source, '2.0.0')).toBe('2.0.0');
+    expect(await resolveVersionRef(source, 'main')).toBe('main');
+    expect(await resolveVersionRef(source, 'a1b2c3d')).toBe('a1b2c3d');
+  });
+
+  it('falls back to the ref when tags cannot be listed', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response('', { status: 403, statusText: 'Forbidden' })));
+
+    expect(await resolveVersionRef(source, '1.8.0')).toBe('1.8.0');
+  });
+});
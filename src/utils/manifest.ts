@@ -0,0 +1,180 @@
+import { existsSync } from 'node:fs';
+import { join } from 'node:path';
+import type { UpgradeManifest, DependencySpec, PackageMergeSection } from '../types.js';
+import type { TemplateSource } from './template-source.js';
+import { readJson } from './fs.js';
+import { compareVersions, isVersionTag } from './semver.js';
+import { fetchTemplateFile, listTemplateTags } from './template-source.js';
+
+const MANIFEST_FILENAME = 'velocity-manifest.json';
+
+// Hardcoded fallback safe list if manifest is missing from template
+export const FALLBACK_SAFE_FILES = [
+  'src/components/ui/',
+  'src/components/seo/',
+  'src/components/layout/',
+  'src/layouts/',
+  'src/lib/',
+  'src/styles/tokens/',
+  'src/styles/global.css',
+  'src/content.config.ts',
+  'tsconfig.json',
+  'eslint.config.js',
+  '.prettierrc',
+  '.prettierignore',
+];
+
+/**
+ * Reads velocity-manifest.json from a template directory.
+ * Returns null if the template doesn't ship a manifest.
+ */
+export function readManifest(templateDir: string): UpgradeManifest | null {
+  const manifestPath = join(templateDir, MANIFEST_FILENAME);
+  if (!existsSync(manifestPath)) {
+    return null;
+  }
+  return readJson<UpgradeManifest>(manifestPath);
+}
+
+/**
+ * Builds a manifest from the hardcoded safe list for templates without one.
+ */
+export function createFallbackManifest(version: string): UpgradeManifest {
+  return {
+    version,
+    minCliVersion: '1.0.0',
+    files: {
+      safe: FALLBACK_SAFE_FILES,
+      protected: [],
+    },
+    dependencies: {
+      update: {},
+      remove: [],
+      add: {},
+    },
+    migrations: [],
+  };
+}
+
+/**
+ * Fetches velocity-manifest.json for a template ref (tag, branch or sha)
+ * without downloading the whole template. Defaults to the source's own ref.
+ */
+export async function fetchManifest(source: TemplateSource, ref?: string): Promise<UpgradeManifest> {
+  try {
+    return JSON.parse(await fetchTemplateFile(source, MANIFEST_FILENAME, ref)) as UpgradeManifest;
+  } catch (error) {
+    throw new Error(
+      `Could not fetch manifest for ${ref ?? source.input}.\n${error instanceof Error ? error.message : ''}`
+    );
+  }
+}
+
+/**
+ * Lists released template versions (from git tags), oldest first.
+ */
+export async function listTemplateVersions(
+  source: TemplateSource
+): Promise<{ version: string; tag: string }[]> {
+  try {
+    const tags = await listTemplateTags(source);
+    return tags
+      .filter((name) => isVersionTag(name))
+      .map((name) => ({ version: name.replace(/^v/, ''), tag: name }))
+      .sort((a, b) => compareVersions(a.version, b.version));
+  } catch (error) {
+    throw new Error(
+      `Could not list template versions.\n${error instanceof Error ? error.message : ''}`
+    );
+  }
+}
+
+/**
+ * Maps a version ref (`1.8.0` or `v1.8.0`) to the template's tag for that
+ * release. Other refs (branches, SHAs) and versions without a matching tag,
+ * or sources whose tags can't be listed, are returned unchanged.
+ */
+export async function resolveVersionRef(source: TemplateSource, ref: string): Promise<string> {
+  if (!isVersionTag(ref)) return ref;
+
+  const version = ref.replace(/^v/, '');
+  const versions = await listTemplateVersions(source).catch(() => []);
+  return versions.find((v) => v.version === version)?.tag ?? ref;
+}
+
+/**
+ * Combines consecutive release manifests (oldest first) into a single manifest
+ * covering the whole range. Dependency operations are replayed in order so a
+ * later release's change wins, and every release's migrations are kept.
+ * File lists come from the latest manifest, which describes the target template.
+ */
+export function combineManifests(manifests: UpgradeManifest[]): UpgradeManifest {
+  const latest = manifests[manifests.length - 1];
+  if (!latest) {
+    throw new Error('No manifests to combine');
+  }
+
+  const update: Record<string, DependencySpec> = {};
+  const add: Record<string, DependencySpec> = {};
+  const remove = new Set<string>();
+  const merge = new Set<PackageMergeSection>();
+  const renames: Record<string, string> = {};
+  const migrations: UpgradeManifest['migrations'] = [];
+  let minCliVersion = '0.0.0';
+
+  for (const manifest of manifests) {
+    if (compareVersions(manifest.minCliVersion, minCliVersion) > 0) {
+      minCliVersion = manifest.minCliVersion;
+    }
+
+    // Chain renames so a file moved twice goes straight to its final path
+    for (const [from, to] of Object.entries(manifest.files.renames ?? {})) {
+      for (const [original, current] of Object.entries(renames)) {
+        if (current === from) renames[original] = to;
+      }
+      renames[from] = to;
+    }
+
+    for (const [name, version] of Object.entries(manifest.dependencies.update)) {
+      if (name in add) {
+        add[name] = version;
+      } else {
+        update[name] = version;
+      }
+      remove.delete(name);
+    }
+
+    for (const [name, version] of Object.entries(manifest.dependencies.add)) {
+      add[name] = version;
+      delete update[name];
+      remove.delete(name);
+    }
+
+    for (const name of manifest.dependencies.remove) {
+      delete update[name];
+      delete add[name];
+      remove.add(name);
+    }
+
+    for (const section of manifest.merge ?? []) {
+      merge.add(section);
+    }
+
+    migrations.push(
+      ...manifest.migrations.map((step) => ({ ...step, version: step.version ?? manifest.version }))
+    );
+  }
+
+  return {
+    version: latest.version,
+    minCliVersion,
+    files: { ...latest.files, renames },
+    dependencies: {
+      update,
+      remove: [...remove],
+      add,
+    },
+    ...(merge.size > 0 ? { merge: [...merge] } : {}),
+    migrations,
+  };
+}
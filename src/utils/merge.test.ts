@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { isBinary, matchLines, mergeThreeWay, splitLines } from './merge.js';
+
+const labels = { ours: 'your changes', theirs: 'Velocity v2.0.0' };
+
+describe('splitLines', () => {
+  it('keeps line terminators so joining restores the text', () => {
+    expect(splitLines('a\nb\nc')).toEqual(['a\n', 'b\n', 'c']);
+    expect(splitLines('a\n').join('')).toBe('a\n');
+    expect(splitLines('')).toEqual([]);
+  });
+});
+
+describe('matchLines', () => {
+  it('pairs the longest common subsequence', () => {
+    expect(matchLines(['a', 'b', 'c'], ['a', 'x', 'c'])).toEqual([[0, 0], [2, 2]]);
+  });
+});
+
+describe('mergeThreeWay', () => {
+  const base = 'one\ntwo\nthree\nfour\n';
+
+  it('takes changes made on only one side', () => {
+    const ours = 'one\nTWO\nthree\nfour\n';
+    const theirs = 'one\ntwo\nthree\nFOUR\n';
+
+    expect(mergeThreeWay(base, ours, theirs, labels)).toEqual({
+      content: 'one\nTWO\nthree\nFOUR\n',
+      conflicts: 0,
+    });
+  });
+
+  it('keeps lines added on both sides in different places', () => {
+    const ours = 'zero\none\ntwo\nthree\nfour\n';
+    const theirs = 'one\ntwo\nthree\nfour\nfive\n';
+
+    expect(mergeThreeWay(base, ours, theirs, labels).content).toBe('zero\none\ntwo\nthree\nfour\nfive\n');
+  });
+
+  it('accepts identical changes on both sides without a conflict', () => {
+    const changed = 'one\n2\nthree\nfour\n';
+    expect(mergeThreeWay(base, changed, changed, labels)).toEqual({ content: changed, conflicts: 0 });
+  });
+
+  it('marks overlapping changes as conflicts', () => {
+    const result = mergeThreeWay(base, 'one\nours\nthree\nfour\n', 'one\ntheirs\nthree\nfour\n', labels);
+
+    expect(result.conflicts).toBe(1);
+    expect(result.content).toBe(
+      'one\n<<<<<<< your changes\nours\n=======\ntheirs\n>>>>>>> Velocity v2.0.0\nthree\nfour\n'
+    );
+  });
+
+  it('terminates conflict sides that end without a newline', () => {
+    const result = mergeThreeWay('a\nb', 'a\nx', 'a\ny', labels);
+    expect(result.content).toBe('a\n<<<<<<< your changes\nx\n=======\ny\n>>>>>>> Velocity v2.0.0\n');
+  });
+});
+
+describe('isBinary', () => {
+  it('detects NUL bytes', () => {
+    expect(isBinary(Buffer.from([0x89, 0x50, 0x00]))).toBe(true);
+    expect(isBinary(Buffer.from('plain text'))).toBe(false);
+  });
+});
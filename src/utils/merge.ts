@@ -0,0 +1,173 @@
+/**
+ * Line-based diffing and three-way merging for text files.
+ */
+
+export interface MergeResult {
+  content: string;
+  conflicts: number;
+}
+
+export interface MergeLabels {
+  ours: string;
+  theirs: string;
+}
+
+/**
+ * Splits text into lines, keeping line terminators attached so that
+ * joining the result reproduces the original text exactly.
+ */
+export function splitLines(text: string): string[] {
+  if (text.length === 0) return [];
+  const lines = text.match(/[^\n]*\n|[^\n]+$/g);
+  return lines ?? [];
+}
+
+/**
+ * Computes the longest common subsequence between two line arrays.
+ * Returns matched index pairs [aIndex, bIndex] in ascending order.
+ */
+export function matchLines(a: string[], b: string[]): Array<[number, number]> {
+  const pairs: Array<[number, number]> = [];
+
+  // Trim common prefix and suffix to keep the LCS table small
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) {
+    pairs.push([start, start]);
+    start++;
+  }
+
+  let endA = a.length;
+  let endB = b.length;
+  const suffix: Array<[number, number]> = [];
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+    suffix.unshift([endA, endB]);
+  }
+
+  const n = endA - start;
+  const m = endB - start;
+
+  if (n > 0 && m > 0) {
+    // lengths[i * (m + 1) + j] = LCS length of a[start+i..endA) and b[start+j..endB)
+    const width = m + 1;
+    const lengths = new Uint32Array((n + 1) * width);
+
+    for (let i = n - 1; i >= 0; i--) {
+      for (let j = m - 1; j >= 0; j--) {
+        lengths[i * width + j] =
+          a[start + i] === b[start + j]
+            ? lengths[(i + 1) * width + j + 1]! + 1
+            : Math.max(lengths[(i + 1) * width + j]!, lengths[i * width + j + 1]!);
+      }
+    }
+
+    let i = 0;
+    let j = 0;
+    while (i < n && j < m) {
+      if (a[start + i] === b[start + j]) {
+        pairs.push([start + i, start + j]);
+        i++;
+        j++;
+      } else if (lengths[(i + 1) * width + j]! >= lengths[i * width + j + 1]!) {
+        i++;
+      } else {
+        j++;
+      }
+    }
+  }
+
+  pairs.push(...suffix);
+  return pairs;
+}
+
+function sameLines(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((line, i) => line === b[i]);
+}
+
+function withTrailingNewline(lines: string[]): string[] {
+  const last = lines[lines.length - 1];
+  if (last !== undefined && !last.endsWith('\n')) {
+    return [...lines.slice(0, -1), last + '\n'];
+  }
+  return lines;
+}
+
+/**
+ * Performs a three-way merge of `ours` and `theirs` against their common `base`.
+ * Regions changed on only one side are taken from that side; regions changed
+ * differently on both sides are written with git-style conflict markers.
+ */
+export function mergeThreeWay(
+  base: string,
+  ours: string,
+  theirs: string,
+  labels: MergeLabels
+): MergeResult {
+  const baseLines = splitLines(base);
+  const ourLines = splitLines(ours);
+  const theirLines = splitLines(theirs);
+
+  // Map each base line to its matched line on either side
+  const ourMatch = new Map<number, number>(matchLines(baseLines, ourLines));
+  const theirMatch = new Map<number, number>(matchLines(baseLines, theirLines));
+
+  const output: string[] = [];
+  let conflicts = 0;
+  let b = 0;
+  let o = 0;
+  let t = 0;
+
+  while (b < baseLines.length || o < ourLines.length || t < theirLines.length) {
+    // Stable line: unchanged on both sides
+    if (b < baseLines.length && ourMatch.get(b) === o && theirMatch.get(b) === t) {
+      output.push(baseLines[b]!);
+      b++;
+      o++;
+      t++;
+      continue;
+    }
+
+    // Find the next base line that is stable on both sides
+    let next = b;
+    while (
+      next < baseLines.length &&
+      !(ourMatch.has(next) && theirMatch.has(next))
+    ) {
+      next++;
+    }
+
+    const oEnd = next < baseLines.length ? ourMatch.get(next)! : ourLines.length;
+    const tEnd = next < baseLines.length ? theirMatch.get(next)! : theirLines.length;
+
+    const baseChunk = baseLines.slice(b, next);
+    const ourChunk = ourLines.slice(o, oEnd);
+    const theirChunk = theirLines.slice(t, tEnd);
+
+    if (sameLines(ourChunk, baseChunk)) {
+      output.push(...theirChunk);
+    } else if (sameLines(theirChunk, baseChunk) || sameLines(ourChunk, theirChunk)) {
+      output.push(...ourChunk);
+    } else {
+      conflicts++;
+      output.push(`<<<<<<< ${labels.ours}\n`);
+      output.push(...withTrailingNewline(ourChunk));
+      output.push('=======\n');
+      output.push(...withTrailingNewline(theirChunk));
+      output.push(`>>>>>>> ${labels.theirs}\n`);
+    }
+
+    b = next;
+    o = oEnd;
+    t = tEnd;
+  }
+
+  return { content: output.join(''), conflicts };
+}
+
+/**
+ * Heuristically detects binary content (NUL byte in the first 8KB).
+ */
+export function isBinary(content: Buffer): boolean {
+  return content.subarray(0, 8000).includes(0);
+}
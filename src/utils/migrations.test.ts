@@ -0,0 +1,96 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { mkdtempSync, mkdirSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import type { MigrationStep } from '../types.js';
+import { createMatcher } from './glob.js';
+import { applyCodemod, applyTransform, planCodemods, scanForMigrationPatterns } from './migrations.js';
+
+const renameFoo: MigrationStep = {
+  title: 'Rename foo',
+  description: '',
+  transform: { type: 'replace', find: 'foo', replace: 'bar' },
+};
+
+const renameBaz: MigrationStep = {
+  title: 'Rename baz',
+  description: '',
+  transform: { type: 'replace', find: 'baz', replace: 'qux' },
+};
+
+describe('applyTransform', () => {
+  it('replaces every regex match', () => {
+    expect(applyTransform('foo foo', renameFoo.transform!)).toBe('bar bar');
+  });
+
+  it('renames import specifiers', () => {
+    const content = "import a from 'old/mod';\nexport * from \"old/mod\";\nimport('old/mod');";
+    expect(applyTransform(content, { type: 'rename-import', from: 'old/mod', to: 'new/mod' })).toBe(
+      "import a from 'new/mod';\nexport * from \"new/mod\";\nimport('new/mod');"
+    );
+  });
+
+  it('renames a prop on the given component only', () => {
+    const content = '<Button variant="x" size={s} />\n<Card variant="y" />';
+    expect(applyTransform(content, { type: 'rename-prop', component: 'Button', from: 'variant', to: 'tone' })).toBe(
+      '<Button tone="x" size={s} />\n<Card variant="y" />'
+    );
+  });
+});
+
+describe('planCodemods / applyCodemod', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'velocity-codemods-'));
+    mkdirSync(join(dir, 'src'));
+    writeFileSync(join(dir, 'src/page.astro'), 'foo and baz');
+    writeFileSync(join(dir, 'src/other.astro'), 'nothing here');
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('plans only files the transform changes, without writing', () => {
+    const [plan] = planCodemods(dir, [renameFoo]);
+
+    expect(plan!.changes).toEqual([{ path: 'src/page.astro', before: 'foo and baz', after: 'bar and baz' }]);
+    expect(readFileSync(join(dir, 'src/page.astro'), 'utf-8')).toBe('foo and baz');
+  });
+
+  it('skips excluded files', () => {
+    const [plan] = planCodemods(dir, [renameFoo], (file) => file === 'src/page.astro');
+    expect(plan!.changes).toEqual([]);
+  });
+
+  it('neither plans nor scans files matching ignore or protect globs', () => {
+    mkdirSync(join(dir, 'src/ui'));
+    writeFileSync(join(dir, 'src/ui/Button.astro'), 'foo');
+    writeFileSync(join(dir, 'src/ignored.astro'), 'foo');
+    const isUntouchable = createMatcher(['src/ui/**', 'src/ignored.astro'], [dir]);
+    const step = { ...renameFoo, pattern: 'foo' };
+
+    const [plan] = planCodemods(dir, [step], isUntouchable);
+    const matches = scanForMigrationPatterns(dir, [step], isUntouchable).get(step.title);
+
+    expect(plan!.changes.map((c) => c.path)).toEqual(['src/page.astro']);
+    expect(matches!.map((m) => m.file)).toEqual(['src/page.astro']);
+  });
+
+  it('keeps earlier codemods when two change the same file', () => {
+    const plans = planCodemods(dir, [renameFoo, renameBaz]);
+    const written = plans.map((plan) => applyCodemod(dir, plan));
+
+    expect(readFileSync(join(dir, 'src/page.astro'), 'utf-8')).toBe('bar and qux');
+    expect(written.map((changes) => changes.length)).toEqual([1, 1]);
+    expect(written[1]![0]).toMatchObject({ before: 'bar and baz', after: 'bar and qux' });
+  });
+
+  it('reports nothing written when the change is already on disk', () => {
+    const [plan] = planCodemods(dir, [renameFoo]);
+    writeFileSync(join(dir, 'src/page.astro'), 'bar and baz');
+
+    expect(applyCodemod(dir, plan!)).toEqual([]);
+  });
+});
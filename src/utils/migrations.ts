@@ -0,0 +1,294 @@
+import { existsSync, readFileSync, writeFileSync, readdirSync, statSync } from 'node:fs';
+import { join, relative, extname } from 'node:path';
+import type { MigrationStep, MigrationTransform, MigrationMatch } from '../types.js';
+import { isBinary } from './merge.js';
+import { isGlob, globToRegExp, isExistingPath } from './glob.js';
+
+export interface CodemodChange {
+  path: string;
+  before: string;
+  after: string;
+}
+
+export interface CodemodPlan {
+  step: MigrationStep;
+  changes: CodemodChange[];
+}
+
+// Files larger than this are skipped when scanning and applying codemods
+const MAX_SCAN_BYTES = 1024 * 1024;
+
+// Longest snippet shown for a match
+const MAX_SNIPPET_LENGTH = 120;
+
+/**
+ * Recursively walks a directory and returns all file paths.
+ */
+function walkFiles(dir: string): string[] {
+  const results: string[] = [];
+  if (!existsSync(dir)) return results;
+
+  const stat = statSync(dir);
+  if (!stat.isDirectory()) {
+    return [dir];
+  }
+
+  const entries = readdirSync(dir, { withFileTypes: true });
+  for (const entry of entries) {
+    const fullPath = join(dir, entry.name);
+    if (entry.isDirectory()) {
+      // Skip dependencies, git and the upgrade's own snapshots
+      if (entry.name === 'node_modules' || entry.name === '.git' || entry.name === '.velocity') continue;
+      results.push(...walkFiles(fullPath));
+    } else {
+      results.push(fullPath);
+    }
+  }
+  return results;
+}
+
+/**
+ * Lists project files (relative paths) covered by a migration's search paths.
+ * Search paths can be directories, files or globs; `extensions` narrows the result.
+ */
+function getSearchFiles(
+  targetDir: string,
+  migration: MigrationStep,
+  exclude: (filePath: string) => boolean
+): string[] {
+  const searchPaths = migration.searchPaths?.length
+    ? migration.searchPaths
+    : ['src/'];
+
+  const files = new Set<string>();
+  let allFiles: string[] | null = null;
+
+  for (const searchPath of searchPaths) {
+    // Existing paths are literal, even with glob characters like Astro's [slug] routes
+    if (isGlob(searchPath) && !isExistingPath(searchPath, [targetDir])) {
+      allFiles ??= walkFiles(targetDir).map((file) => relative(targetDir, file));
+      const regex = globToRegExp(searchPath);
+      for (const file of allFiles) {
+        if (regex.test(file)) files.add(file);
+      }
+      continue;
+    }
+
+    for (const file of walkFiles(join(targetDir, searchPath))) {
+      files.add(relative(targetDir, file));
+    }
+  }
+
+  const extensions = migration.extensions?.map((ext) => (ext.startsWith('.') ? ext : `.${ext}`));
+  return [...files].filter(
+    (file) => !exclude(file) && (!extensions || extensions.includes(extname(file)))
+  );
+}
+
+/**
+ * Reads a file as text, or returns null for binary, oversized or unreadable files.
+ */
+function readTextFile(path: string): string | null {
+  try {
+    if (statSync(path).size > MAX_SCAN_BYTES) return null;
+    const content = readFileSync(path);
+    return isBinary(content) ? null : content.toString('utf-8');
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Finds every match of `regex` in `content` with its line, column and line text.
+ */
+function findMatches(file: string, content: string, regex: RegExp): MigrationMatch[] {
+  const matches: MigrationMatch[] = [];
+  const lineStarts = [0];
+  for (let i = 0; i < content.length; i++) {
+    if (content[i] === '\n') lineStarts.push(i + 1);
+  }
+
+  let line = 0;
+  for (const match of content.matchAll(regex)) {
+    const index = match.index ?? 0;
+    while (line + 1 < lineStarts.length && lineStarts[line + 1]! <= index) line++;
+
+    const lineEnd = content.indexOf('\n', lineStarts[line]!);
+    const text = content.slice(lineStarts[line]!, lineEnd === -1 ? undefined : lineEnd).trim();
+
+    matches.push({
+      file,
+      line: line + 1,
+      column: index - lineStarts[line]! + 1,
+      snippet: text.length > MAX_SNIPPET_LENGTH ? `${text.slice(0, MAX_SNIPPET_LENGTH - 1)}…` : text,
+    });
+  }
+
+  return matches;
+}
+
+/**
+ * Scans user files for migration patterns and returns each match's location.
+ * Files `exclude` returns true for (e.g. ignored or protected ones) aren't scanned.
+ */
+export function scanForMigrationPatterns(
+  targetDir: string,
+  migrations: MigrationStep[],
+  exclude: (filePath: string) => boolean = () => false
+): Map<string, MigrationMatch[]> {
+  const results = new Map<string, MigrationMatch[]>();
+
+  for (const migration of migrations) {
+    if (!migration.pattern) {
+      results.set(migration.title, []);
+      continue;
+    }
+
+    const flags = migration.flags ?? '';
+    const regex = new RegExp(migration.pattern, flags.includes('g') ? flags : `${flags}g`);
+    const matches: MigrationMatch[] = [];
+
+    for (const file of getSearchFiles(targetDir, migration, exclude)) {
+      const content = readTextFile(join(targetDir, file));
+      if (content !== null) {
+        matches.push(...findMatches(file, content, regex));
+      }
+    }
+
+    results.set(migration.title, matches);
+  }
+
+  return results;
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Renames an attribute on every opening tag of `component`.
+ * Walks each tag so quoted values and {expressions} are left untouched.
+ */
+function renameProp(content: string, component: string, from: string, to: string): string {
+  const tagStart = new RegExp(`<${escapeRegExp(component)}(?=[\\s/>])`, 'g');
+  let output = '';
+  let last = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = tagStart.exec(content)) !== null) {
+    let i = match.index + match[0].length;
+    let depth = 0;
+    let quote: string | null = null;
+    let tag = '';
+
+    for (; i < content.length; i++) {
+      const ch = content[i]!;
+
+      if (quote) {
+        if (ch === quote) quote = null;
+      } else if (ch === '"' || ch === "'" || ch === '`') {
+        quote = ch;
+      } else if (ch === '{') {
+        depth++;
+      } else if (ch === '}') {
+        depth--;
+      } else if (ch === '>' && depth === 0) {
+        break;
+      } else if (depth === 0 && /\s/.test(ch) && content.startsWith(from, i + 1)) {
+        // Attribute name boundary: whitespace before, =, whitespace, / or > after
+        const after = content[i + 1 + from.length];
+        if (after === undefined || /[\s=/>]/.test(after)) {
+          tag += ch + to;
+          i += from.length;
+          continue;
+        }
+      }
+
+      tag += ch;
+    }
+
+    output += content.slice(last, match.index + match[0].length) + tag;
+    last = i;
+    tagStart.lastIndex = i;
+  }
+
+  return output + content.slice(last);
+}
+
+/**
+ * Applies a migration transform to file content and returns the result.
+ */
+export function applyTransform(content: string, transform: MigrationTransform): string {
+  switch (transform.type) {
+    case 'replace': {
+      const flags = transform.flags ?? '';
+      const regex = new RegExp(transform.find, flags.includes('g') ? flags : `${flags}g`);
+      return content.replace(regex, transform.replace);
+    }
+
+    case 'rename-import': {
+      // import x from 'a' | export * from 'a' | import 'a' | import('a')
+      const regex = new RegExp(
+        `((?:\\bfrom|\\bimport)\\s*\\(?\\s*)(['"])${escapeRegExp(transform.from)}\\2`,
+        'g'
+      );
+      return content.replace(regex, `$1$2${transform.to}$2`);
+    }
+
+    case 'rename-prop':
+      return renameProp(content, transform.component, transform.from, transform.to);
+  }
+}
+
+/**
+ * Works out which files each codemod would change, without writing anything.
+ * Files `exclude` returns true for (e.g. ones the upgrade replaces) are left alone.
+ */
+export function planCodemods(
+  targetDir: string,
+  migrations: MigrationStep[],
+  exclude: (filePath: string) => boolean = () => false
+): CodemodPlan[] {
+  const plans: CodemodPlan[] = [];
+
+  for (const step of migrations) {
+    if (!step.transform) continue;
+
+    const changes: CodemodChange[] = [];
+    for (const file of getSearchFiles(targetDir, step, exclude)) {
+      const before = readTextFile(join(targetDir, file));
+      if (before === null) continue;
+
+      const after = applyTransform(before, step.transform);
+      if (after !== before) {
+        changes.push({ path: file, before, after });
+      }
+    }
+
+    plans.push({ step, changes });
+  }
+
+  return plans;
+}
+
+/**
+ * Applies a codemod to the files it planned to change. Each file is re-read and
+ * transformed again, so codemods touching the same file build on each other
+ * instead of overwriting one another. Returns the changes actually written.
+ */
+export function applyCodemod(targetDir: string, plan: CodemodPlan): CodemodChange[] {
+  const written: CodemodChange[] = [];
+
+  for (const { path } of plan.changes) {
+    const before = readTextFile(join(targetDir, path));
+    if (before === null) continue;
+
+    const after = applyTransform(before, plan.step.transform!);
+    if (after === before) continue;
+
+    writeFileSync(join(targetDir, path), after);
+    written.push({ path, before, after });
+  }
+
+  return written;
+}
@@ -0,0 +1,109 @@
+import { describe, expect, it } from 'vitest';
+import type { UpgradeManifest } from '../types.js';
+import type { PackageJson } from './package-json.js';
+import { compareRanges, hasPackageChanges, mergePackageJson } from './package-json.js';
+
+function manifest(overrides: Partial<UpgradeManifest> = {}): UpgradeManifest {
+  return {
+    version: '2.0.0',
+    minCliVersion: '1.0.0',
+    files: { safe: [], protected: [] },
+    dependencies: { update: {}, remove: [], add: {} },
+    migrations: [],
+    ...overrides,
+  };
+}
+
+describe('compareRanges', () => {
+  it('applies ranges that start higher', () => {
+    expect(compareRanges('^5.0.0', '^6.0.0')).toBe('applied');
+    expect(compareRanges('~1.2', '^1.3.0')).toBe('applied');
+  });
+
+  it('keeps ranges the project already bumped', () => {
+    expect(compareRanges('^6.1.0', '^6.0.0')).toBe('kept');
+    expect(compareRanges('^6.0.0', '6.0.0')).toBe('kept');
+  });
+
+  it('reports identical ranges as unchanged', () => {
+    expect(compareRanges('^6.0.0', '^6.0.0')).toBe('unchanged');
+  });
+
+  it('reports ranges without a version as conflicts', () => {
+    expect(compareRanges('latest', '^6.0.0')).toBe('conflict');
+    expect(compareRanges('workspace:*', '^6.0.0')).toBe('conflict');
+    expect(compareRanges('^6.0.0', 'github:withastro/astro')).toBe('conflict');
+  });
+});
+
+describe('mergePackageJson', () => {
+  const pkg: PackageJson = {
+    name: 'my-site',
+    scripts: { dev: 'astro dev', build: 'custom build' },
+    dependencies: { astro: '^5.0.0', 'old-lib': '^1.0.0', zod: '^4.1.0' },
+    devDependencies: { typescript: '^5.0.0' },
+  };
+
+  it('updates, adds and removes dependencies without touching the input', () => {
+    const merge = mergePackageJson(
+      pkg,
+      manifest({
+        dependencies: {
+          update: { astro: '^6.0.0', zod: '^4.0.0' },
+          remove: ['old-lib'],
+          add: { '@astrojs/mdx': '^5.0.0' },
+        },
+      }),
+      null
+    );
+
+    expect(merge.pkg.dependencies).toEqual({ '@astrojs/mdx': '^5.0.0', astro: '^6.0.0', zod: '^4.1.0' });
+    expect(merge.dependencies.map((d) => [d.name, d.operation, d.status])).toEqual([
+      ['astro', 'update', 'applied'],
+      ['zod', 'update', 'kept'],
+      ['old-lib', 'remove', 'applied'],
+      ['@astrojs/mdx', 'add', 'applied'],
+    ]);
+    expect(pkg.dependencies!.astro).toBe('^5.0.0');
+    expect(hasPackageChanges(merge)).toBe(true);
+  });
+
+  it('updates a package in the field the project keeps it in', () => {
+    const merge = mergePackageJson(pkg, manifest({ dependencies: { update: { typescript: '^5.7.0' }, remove: [], add: {} } }), null);
+
+    expect(merge.pkg.devDependencies).toEqual({ typescript: '^5.7.0' });
+    expect(merge.pkg.dependencies).not.toHaveProperty('typescript');
+  });
+
+  it('moves a package to the field the manifest names', () => {
+    const merge = mergePackageJson(
+      pkg,
+      manifest({ dependencies: { update: { typescript: { version: '^5.7.0', field: 'dependencies' } }, remove: [], add: {} } }),
+      null
+    );
+
+    expect(merge.pkg.dependencies!.typescript).toBe('^5.7.0');
+    expect(merge.pkg.devDependencies).not.toHaveProperty('typescript');
+  });
+
+  it('merges template sections, keeping custom scripts', () => {
+    const merge = mergePackageJson(
+      pkg,
+      manifest({ merge: ['scripts', 'engines'] }),
+      { scripts: { build: 'astro build', check: 'astro check' }, engines: { node: '>=20' } }
+    );
+
+    expect(merge.pkg.scripts).toEqual({ dev: 'astro dev', build: 'custom build', check: 'astro check' });
+    expect(merge.pkg.engines).toEqual({ node: '>=20' });
+    expect(merge.fields.map((f) => [f.section, f.key, f.status])).toEqual([
+      ['scripts', 'build', 'conflict'],
+      ['scripts', 'check', 'applied'],
+      ['engines', 'node', 'applied'],
+    ]);
+  });
+
+  it('reports no changes when everything is current', () => {
+    const merge = mergePackageJson(pkg, manifest({ dependencies: { update: { astro: '^5.0.0' }, remove: [], add: {} } }), null);
+    expect(hasPackageChanges(merge)).toBe(false);
+  });
+});
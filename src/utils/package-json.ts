@@ -0,0 +1,178 @@
+import { existsSync } from 'node:fs';
+import { join } from 'node:path';
+import type {
+  UpgradeManifest,
+  DependencyChange,
+  DependencyField,
+  DependencySpec,
+  PackageChangeStatus,
+  PackageFieldChange,
+  PackageMergeSection,
+} from '../types.js';
+import { readJson, writeJson } from './fs.js';
+import { compareVersions, minVersion } from './semver.js';
+
+export interface PackageJson {
+  scripts?: Record<string, string>;
+  engines?: Record<string, string>;
+  pnpm?: { overrides?: Record<string, string>; [key: string]: unknown };
+  dependencies?: Record<string, string>;
+  devDependencies?: Record<string, string>;
+  peerDependencies?: Record<string, string>;
+  [key: string]: unknown;
+}
+
+export interface PackageJsonMerge {
+  pkg: PackageJson;
+  dependencies: DependencyChange[];
+  fields: PackageFieldChange[];
+}
+
+const DEPENDENCY_FIELDS: DependencyField[] = ['dependencies', 'devDependencies', 'peerDependencies'];
+
+/**
+ * Reads package.json from a directory. Returns null if there isn't one.
+ */
+export function readPackageJson(dir: string): PackageJson | null {
+  const pkgPath = join(dir, 'package.json');
+  if (!existsSync(pkgPath)) {
+    return null;
+  }
+  return readJson<PackageJson>(pkgPath);
+}
+
+/**
+ * Writes package.json to a directory.
+ */
+export function writePackageJson(dir: string, pkg: PackageJson): void {
+  writeJson(join(dir, 'package.json'), pkg);
+}
+
+/**
+ * Decides whether moving from the project's range to the template's is an upgrade.
+ * The project's range is kept when it already starts at or above the template's,
+ * and reported as a conflict when either range doesn't name a version.
+ */
+export function compareRanges(current: string, target: string): PackageChangeStatus {
+  if (current === target) return 'unchanged';
+
+  const currentMin = minVersion(current);
+  const targetMin = minVersion(target);
+  if (!currentMin || !targetMin) return 'conflict';
+
+  return compareVersions(currentMin, targetMin) >= 0 ? 'kept' : 'applied';
+}
+
+function sortKeys(record: Record<string, string>): Record<string, string> {
+  return Object.fromEntries(Object.entries(record).sort(([a], [b]) => a.localeCompare(b)));
+}
+
+function getSection(
+  pkg: PackageJson,
+  section: PackageMergeSection,
+  create: boolean
+): Record<string, string> | undefined {
+  switch (section) {
+    case 'scripts':
+      if (create) pkg.scripts ??= {};
+      return pkg.scripts;
+    case 'engines':
+      if (create) pkg.engines ??= {};
+      return pkg.engines;
+    case 'pnpm.overrides':
+      if (create) {
+        pkg.pnpm ??= {};
+        pkg.pnpm.overrides ??= {};
+      }
+      return pkg.pnpm?.overrides;
+  }
+}
+
+/**
+ * Applies a manifest's dependency changes (and any requested template sections)
+ * to a package.json, without downgrading packages the project already bumped.
+ * Returns the merged package.json and what happened to each entry; the input
+ * is left untouched so the result can be previewed before it's written.
+ */
+export function mergePackageJson(
+  pkg: PackageJson,
+  manifest: UpgradeManifest,
+  templatePkg: PackageJson | null
+): PackageJsonMerge {
+  const next = structuredClone(pkg);
+  const dependencies: DependencyChange[] = [];
+  const fields: PackageFieldChange[] = [];
+
+  const setDependency = (name: string, operation: 'update' | 'add', spec: DependencySpec) => {
+    const { version, field } = typeof spec === 'string' ? { version: spec, field: undefined } : spec;
+    const present = DEPENDENCY_FIELDS.filter((f) => next[f]?.[name] !== undefined);
+    const targets: DependencyField[] = field ? [field] : present.length > 0 ? present : ['dependencies'];
+
+    for (const target of targets) {
+      // When the manifest moves a package between fields, compare against its old entry
+      const moveFrom = present.find((f) => f !== target && f !== 'peerDependencies');
+      const from = next[target]?.[name] ?? (moveFrom ? next[moveFrom]![name]! : null);
+      const status = from === null ? 'applied' : compareRanges(from, version);
+
+      const record = (next[target] ??= {});
+      const isNew = record[name] === undefined;
+      record[name] = status === 'applied' ? version : from!;
+      if (isNew) next[target] = sortKeys(record);
+
+      dependencies.push({ name, operation, field: target, from, to: version, status });
+    }
+
+    // A package moved to dependencies/devDependencies leaves its old field
+    if (field && field !== 'peerDependencies') {
+      for (const other of present) {
+        if (other !== field && other !== 'peerDependencies') delete next[other]![name];
+      }
+    }
+  };
+
+  for (const [name, spec] of Object.entries(manifest.dependencies.update)) {
+    setDependency(name, 'update', spec);
+  }
+
+  for (const name of manifest.dependencies.remove) {
+    for (const field of DEPENDENCY_FIELDS) {
+      const from = next[field]?.[name];
+      if (from === undefined) continue;
+      delete next[field]![name];
+      dependencies.push({ name, operation: 'remove', field, from, to: null, status: 'applied' });
+    }
+  }
+
+  for (const [name, spec] of Object.entries(manifest.dependencies.add)) {
+    setDependency(name, 'add', spec);
+  }
+
+  // Template sections: add missing keys, upgrade version ranges, keep custom scripts
+  for (const section of manifest.merge ?? []) {
+    const source = templatePkg ? getSection(templatePkg, section, false) : undefined;
+    if (!source) continue;
+
+    const target = getSection(next, section, true)!;
+    for (const [key, value] of Object.entries(source)) {
+      const from = target[key] ?? null;
+      const status: PackageChangeStatus =
+        from === null ? 'applied'
+        : from === value ? 'unchanged'
+        : section === 'scripts' ? 'conflict'
+        : compareRanges(from, value);
+
+      if (status === 'unchanged') continue;
+      if (status === 'applied') target[key] = value;
+      fields.push({ section, key, from, to: value, status });
+    }
+  }
+
+  return { pkg: next, dependencies, fields };
+}
+
+/**
+ * Checks whether a merge result changes anything in package.json.
+ */
+export function hasPackageChanges(merge: PackageJsonMerge): boolean {
+  return [...merge.dependencies, ...merge.fields].some((change) => change.status === 'applied');
+}
@@ -1,4 +1,9 @@
+import { existsSync } from 'node:fs';
+import { join } from 'node:path';
 import type { PackageManager } from '../types.js';
+import { readJson } from './fs.js';
+
+export const PACKAGE_MANAGERS: PackageManager[] = ['pnpm', 'npm', 'yarn', 'bun'];
 
 /**
  * Detects the package manager used to run this command
@@ -45,3 +50,49 @@ export function getRunCommand(pm: PackageManager): string {
       return 'npm run';
   }
 }
+
+// Lockfiles in detection order
+export const LOCKFILES: Record<string, PackageManager> = {
+  'pnpm-lock.yaml': 'pnpm',
+  'yarn.lock': 'yarn',
+  'bun.lock': 'bun',
+  'bun.lockb': 'bun',
+  'package-lock.json': 'npm',
+};
+
+/**
+ * Detects the package manager a project uses from its lockfile,
+ * falling back to the "packageManager" field in package.json.
+ * Returns null if neither is present.
+ */
+export function detectProjectPackageManager(projectDir: string): PackageManager | null {
+  for (const [lockfile, pm] of Object.entries(LOCKFILES)) {
+    if (existsSync(join(projectDir, lockfile))) return pm;
+  }
+
+  const pkgPath = join(projectDir, 'package.json');
+  if (existsSync(pkgPath)) {
+    const { packageManager } = readJson<{ packageManager?: string }>(pkgPath);
+    const name = packageManager?.split('@')[0];
+    if (name === 'pnpm' || name === 'yarn' || name === 'bun' || name === 'npm') return name;
+  }
+
+  return null;
+}
+
+/**
+ * Gets the command that runs a locally installed binary for a package manager
+ */
+export function getExecCommand(pm: PackageManager): string {
+  switch (pm) {
+    case 'pnpm':
+      return 'pnpm exec';
+    case 'yarn':
+      return 'yarn';
+    case 'bun':
+      return 'bunx';
+    case 'npm':
+    default:
+      return 'npx';
+  }
+}
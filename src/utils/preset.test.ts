@@ -0,0 +1,80 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import type { ScaffoldPreset } from '../types.js';
+import { loadPreset, savePreset, validatePreset } from './preset.js';
+
+const preset: ScaffoldPreset = {
+  template: 'github:acme/velocity',
+  demo: false,
+  components: 'categories:ui,patterns/forms;individual:button',
+  i18n: true,
+  pages: ['about', 'contact'],
+  pageLayout: 'page',
+  packageManager: 'pnpm',
+  deploy: 'netlify',
+  git: true,
+  install: false,
+};
+
+describe('validatePreset', () => {
+  it('accepts every known option', () => {
+    expect(validatePreset(preset, 'test')).toEqual(preset);
+  });
+
+  it('lists every problem at once', () => {
+    expect(() =>
+      validatePreset({ demo: 'yes', pages: ['Blog'], packageManager: 'pip', colour: 'red' }, 'test')
+    ).toThrowError(
+      /unknown option "colour"[\s\S]*demo must be true or false[\s\S]*pages: "Blog"[\s\S]*packageManager must be one of/
+    );
+  });
+
+  it('rejects malformed components values', () => {
+    expect(() => validatePreset({ components: 'some:ui' }, 'test')).toThrowError(/components must be/);
+    expect(() => validatePreset({ components: 'categories:' }, 'test')).toThrowError(/components must be/);
+  });
+
+  it('requires demo for the landing layout', () => {
+    expect(() => validatePreset({ demo: false, pageLayout: 'landing' }, 'test')).toThrowError(/requires demo/);
+  });
+});
+
+describe('savePreset / loadPreset', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'velocity-preset-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('round-trips through YAML', () => {
+    const path = savePreset(join(dir, 'agency.yaml'), preset);
+
+    expect(readFileSync(path, 'utf-8')).toContain('pages:\n  - about\n  - contact\n');
+    expect(loadPreset(path)).toEqual(preset);
+  });
+
+  it('round-trips through JSON', () => {
+    const path = savePreset(join(dir, 'agency.json'), preset);
+    expect(loadPreset(path)).toEqual(preset);
+  });
+
+  it('reads ordinary YAML such as block scalars and quoted keys', () => {
+    const path = join(dir, 'preset.yml');
+    writeFileSync(path, '"demo": true\ntemplate: >-\n  github:acme/velocity\npages: [about]\n');
+
+    expect(loadPreset(path)).toEqual({ demo: true, template: 'github:acme/velocity', pages: ['about'] });
+  });
+
+  it('reports YAML syntax errors with the file', () => {
+    const path = join(dir, 'broken.yaml');
+    writeFileSync(path, 'pages: [about\ndemo: true\n');
+
+    expect(() => loadPreset(path)).toThrowError(`Could not parse preset ${path}`);
+  });
+});
@@ -0,0 +1,231 @@
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'node:fs';
+import { join, resolve, dirname, extname } from 'node:path';
+import { homedir } from 'node:os';
+import { parse as parseYaml, stringify as stringifyYaml } from 'yaml';
+import type { DeployTarget, PackageManager, PageLayout, ScaffoldOptions, ScaffoldPreset } from '../types.js';
+import { formatComponentsConfig } from './velocity-config.js';
+import { validatePageName } from './validate.js';
+import { parseTemplateSource } from './template-source.js';
+import { PACKAGE_MANAGERS } from './package-manager.js';
+import { PAGE_LAYOUTS } from '../features/pages.js';
+import { DEPLOY_TARGETS } from '../features/deploy.js';
+
+const PRESET_EXTENSIONS = ['.json', '.yaml', '.yml'];
+
+// Every key a preset may contain, in the order presets are saved
+const PRESET_KEYS: (keyof ScaffoldPreset)[] = [
+  'template',
+  'demo',
+  'components',
+  'i18n',
+  'pages',
+  'pageLayout',
+  'packageManager',
+  'deploy',
+  'git',
+  'install',
+];
+
+/**
+ * Returns the directory named presets are stored in, honouring XDG_CONFIG_HOME.
+ */
+export function getPresetsDir(): string {
+  const base = process.env.XDG_CONFIG_HOME || join(homedir(), '.config');
+  return join(base, 'create-velocity-astro', 'presets');
+}
+
+/**
+ * Checks if a --preset value is a file path rather than a preset name.
+ */
+function isPresetPath(value: string): boolean {
+  return /[\\/]/.test(value) || PRESET_EXTENSIONS.includes(extname(value)) || existsSync(value);
+}
+
+/**
+ * Resolves a --preset value to a file: paths as given, names from the presets directory.
+ */
+export function resolvePresetPath(value: string): string {
+  if (isPresetPath(value)) {
+    const path = resolve(process.cwd(), value);
+    if (!existsSync(path)) {
+      throw new Error(`Preset file not found: ${path}`);
+    }
+    return path;
+  }
+
+  const dir = getPresetsDir();
+  for (const ext of PRESET_EXTENSIONS) {
+    const path = join(dir, `${value}${ext}`);
+    if (existsSync(path)) return path;
+  }
+  throw new Error(`Preset "${value}" not found in ${dir}`);
+}
+
+/**
+ * Checks a components value against the .velocity.json format.
+ */
+function validateComponents(value: string): string | null {
+  if (value === 'all' || value === 'none') return null;
+
+  const valid = value.split(';').every((part) => {
+    const match = /^(categories|individual):(.+)$/.exec(part);
+    return match && match[2]!.split(',').some((id) => id.trim());
+  });
+  if (!valid) {
+    return `components must be "all", "none", "categories:<ids>", "individual:<ids>" or both joined by ";" (got "${value}")`;
+  }
+  return null;
+}
+
+/**
+ * Validates parsed preset data, collecting every problem into one error.
+ */
+export function validatePreset(data: unknown, origin: string): ScaffoldPreset {
+  if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+    throw new Error(`Invalid preset ${origin}: expected an object of options`);
+  }
+
+  const input = data as Record<string, unknown>;
+  const errors: string[] = [];
+  const preset: ScaffoldPreset = {};
+
+  for (const key of Object.keys(input)) {
+    if (!PRESET_KEYS.includes(key as keyof ScaffoldPreset)) {
+      errors.push(`unknown option "${key}" (expected one of: ${PRESET_KEYS.join(', ')})`);
+    }
+  }
+
+  for (const key of ['demo', 'i18n', 'git', 'install'] as const) {
+    const value = input[key];
+    if (value === undefined || value === null) continue;
+    if (typeof value !== 'boolean') {
+      errors.push(`${key} must be true or false`);
+    } else {
+      preset[key] = value;
+    }
+  }
+
+  if (input.components !== undefined && input.components !== null) {
+    const error = typeof input.components === 'string'
+      ? validateComponents(input.components)
+      : 'components must be a string';
+    if (error) errors.push(error);
+    else preset.components = input.components as string;
+  }
+
+  if (input.pages !== undefined && input.pages !== null) {
+    if (!Array.isArray(input.pages) || input.pages.some((page) => typeof page !== 'string')) {
+      errors.push('pages must be a list of page names');
+    } else {
+      const invalid = (input.pages as string[])
+        .map((page) => validatePageName(page))
+        .filter((result) => !result.valid);
+      if (invalid.length > 0) {
+        errors.push(...invalid.map((result) => `pages: ${result.message}`));
+      } else {
+        preset.pages = input.pages as string[];
+      }
+    }
+  }
+
+  if (input.pageLayout !== undefined && input.pageLayout !== null) {
+    if (!PAGE_LAYOUTS.includes(input.pageLayout as PageLayout)) {
+      errors.push(`pageLayout must be one of: ${PAGE_LAYOUTS.join(', ')}`);
+    } else {
+      preset.pageLayout = input.pageLayout as PageLayout;
+    }
+  }
+
+  if (input.packageManager !== undefined && input.packageManager !== null) {
+    if (!PACKAGE_MANAGERS.includes(input.packageManager as PackageManager)) {
+      errors.push(`packageManager must be one of: ${PACKAGE_MANAGERS.join(', ')}`);
+    } else {
+      preset.packageManager = input.packageManager as PackageManager;
+    }
+  }
+
+  if (input.deploy !== undefined && input.deploy !== null) {
+    if (!DEPLOY_TARGETS.includes(input.deploy as DeployTarget)) {
+      errors.push(`deploy must be one of: ${DEPLOY_TARGETS.join(', ')}`);
+    } else {
+      preset.deploy = input.deploy as DeployTarget;
+    }
+  }
+
+  if (input.template !== undefined && input.template !== null) {
+    try {
+      if (typeof input.template !== 'string') throw new Error('template must be a string');
+      parseTemplateSource(input.template);
+      preset.template = input.template;
+    } catch (error) {
+      errors.push(error instanceof Error ? error.message : 'template is invalid');
+    }
+  }
+
+  if (preset.pageLayout === 'landing' && preset.demo === false) {
+    errors.push('pageLayout "landing" requires demo: true (LandingLayout ships with the demo content)');
+  }
+
+  if (errors.length > 0) {
+    throw new Error(`Invalid preset ${origin}:\n${errors.map((e) => `  - ${e}`).join('\n')}`);
+  }
+
+  return preset;
+}
+
+/**
+ * Loads and validates a preset by name or file path.
+ */
+export function loadPreset(value: string): ScaffoldPreset {
+  const path = resolvePresetPath(value);
+  const content = readFileSync(path, 'utf-8');
+
+  let data: unknown;
+  try {
+    data = extname(path) === '.json' ? JSON.parse(content) : parseYaml(content);
+  } catch (error) {
+    throw new Error(`Could not parse preset ${path}\n${error instanceof Error ? error.message : ''}`);
+  }
+
+  return validatePreset(data, path);
+}
+
+/**
+ * Captures scaffold choices as a preset.
+ */
+export function createPreset(options: ScaffoldOptions): ScaffoldPreset {
+  return {
+    ...(options.template ? { template: options.template } : {}),
+    demo: options.demo,
+    components: formatComponentsConfig(options.componentSelection),
+    i18n: options.i18n,
+    pages: options.pages,
+    pageLayout: options.pageLayout,
+    packageManager: options.packageManager,
+    deploy: options.deploy,
+    git: options.git,
+    install: options.install,
+  };
+}
+
+/**
+ * Writes a preset. Names are saved as JSON in the presets directory; file
+ * paths are written as YAML when they end in .yaml/.yml. Returns the path.
+ */
+export function savePreset(target: string, preset: ScaffoldPreset): string {
+  const path = isPresetPath(target)
+    ? resolve(process.cwd(), target)
+    : join(getPresetsDir(), `${target}.json`);
+
+  mkdirSync(dirname(path), { recursive: true });
+
+  const ordered = Object.fromEntries(PRESET_KEYS.map((key) => [key, preset[key]]));
+  writeFileSync(
+    path,
+    ['.yaml', '.yml'].includes(extname(path))
+      ? stringifyYaml(ordered)
+      : JSON.stringify(ordered, null, 2) + '\n'
+  );
+
+  return path;
+}
@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { compareVersions, isVersionLessThan, isVersionTag, minVersion } from './semver.js';
+
+describe('compareVersions', () => {
+  it('compares numerically, ignoring a leading v', () => {
+    expect(compareVersions('1.10.0', '1.9.0')).toBeGreaterThan(0);
+    expect(compareVersions('v1.6.2', '1.6.2')).toBe(0);
+    expect(compareVersions('1.6', '1.6.1')).toBeLessThan(0);
+    expect(isVersionLessThan('1.6.1', '1.6.2')).toBe(true);
+  });
+});
+
+describe('isVersionTag', () => {
+  it('recognises release versions', () => {
+    expect(isVersionTag('v1.7.0')).toBe(true);
+    expect(isVersionTag('1.7.0-beta.1')).toBe(true);
+    expect(isVersionTag('main')).toBe(false);
+  });
+});
+
+describe('minVersion', () => {
+  it('returns the lowest version a range allows', () => {
+    expect(minVersion('^4.2.0')).toBe('4.2.0');
+    expect(minVersion('~1.3')).toBe('1.3.0');
+    expect(minVersion('>=18')).toBe('18.0.0');
+    expect(minVersion('5.x')).toBe('5.0.0');
+    expect(minVersion('^1.0.0 || ^2.0.0')).toBe('1.0.0');
+  });
+
+  it('returns null for ranges without a lower bound', () => {
+    expect(minVersion('*')).toBeNull();
+    expect(minVersion('latest')).toBeNull();
+    expect(minVersion('<2.0.0')).toBeNull();
+  });
+});
@@ -0,0 +1,54 @@
+/**
+ * Parses a semver-like version string into numeric parts.
+ * Non-numeric parts (e.g. prerelease tags) count as 0.
+ */
+function parseVersion(version: string): number[] {
+  return version.replace(/^v/, '').split(/[-.]/).map((part) => {
+    const n = parseInt(part, 10);
+    return isNaN(n) ? 0 : n;
+  });
+}
+
+/**
+ * Compares two semver-like version strings.
+ * Returns a negative number if a < b, positive if a > b, 0 if equal.
+ */
+export function compareVersions(a: string, b: string): number {
+  const av = parseVersion(a);
+  const bv = parseVersion(b);
+  const len = Math.max(av.length, bv.length);
+
+  for (let i = 0; i < len; i++) {
+    const diff = (av[i] ?? 0) - (bv[i] ?? 0);
+    if (diff !== 0) return diff;
+  }
+  return 0;
+}
+
+/**
+ * Returns true if `current` < `required`.
+ */
+export function isVersionLessThan(current: string, required: string): boolean {
+  return compareVersions(current, required) < 0;
+}
+
+/**
+ * Checks if a string looks like a release version or tag (e.g. "1.7.0", "v1.7.0").
+ */
+export function isVersionTag(value: string): boolean {
+  return /^v?\d+\.\d+\.\d+/.test(value);
+}
+
+/**
+ * Returns the lowest version a range such as "^4.2.0", "~1.3", ">=18" or "5.x" allows.
+ * Returns null for ranges that don't start from a version (e.g. "*", "latest",
+ * "workspace:*", "<2.0.0" or git URLs).
+ */
+export function minVersion(range: string): string | null {
+  const first = range.split('||')[0]!.trim();
+  const match = /^(?:[\^~]|>=?|=)?\s*v?(\d+)(?:\.(\d+|[xX*]))?(?:\.(\d+|[xX*]))?/.exec(first);
+  if (!match) return null;
+
+  const part = (value: string | undefined) => (value && /^\d+$/.test(value) ? value : '0');
+  return `${match[1]}.${part(match[2])}.${part(match[3])}`;
+}
@@ -0,0 +1,71 @@
+import { existsSync, mkdirSync, renameSync, rmSync } from 'node:fs';
+import { join, dirname, basename } from 'node:path';
+
+export interface StagingDir {
+  // Where the project is built
+  dir: string;
+  // Moves the staged project into place, replacing the target directory
+  commit: () => void;
+  // Removes the staged project, leaving the target untouched
+  rollback: () => void;
+}
+
+// Exit code for an interrupted run (128 + SIGINT)
+const INTERRUPTED_EXIT_CODE = 130;
+
+/**
+ * Creates an empty staging directory next to targetDir. Being on the same
+ * filesystem, it can be renamed into place atomically once the project is built.
+ * Until commit or rollback, it is removed if the process exits or is interrupted.
+ */
+export function createStagingDir(targetDir: string): StagingDir {
+  const parent = dirname(targetDir);
+  const name = basename(targetDir);
+  const stagingDir = join(parent, `.${name}.staging-${process.pid}`);
+  const previousDir = join(parent, `.${name}.previous-${process.pid}`);
+
+  rmSync(stagingDir, { recursive: true, force: true });
+  mkdirSync(stagingDir, { recursive: true });
+
+  const removeStaging = () => rmSync(stagingDir, { recursive: true, force: true });
+  const onSignal = () => process.exit(INTERRUPTED_EXIT_CODE);
+
+  process.on('exit', removeStaging);
+  process.on('SIGINT', onSignal);
+  process.on('SIGTERM', onSignal);
+
+  const detach = () => {
+    process.off('exit', removeStaging);
+    process.off('SIGINT', onSignal);
+    process.off('SIGTERM', onSignal);
+  };
+
+  return {
+    dir: stagingDir,
+
+    commit() {
+      // Move the existing directory aside so it can be put back if the swap fails
+      const replacing = existsSync(targetDir);
+      if (replacing) {
+        renameSync(targetDir, previousDir);
+      }
+
+      try {
+        renameSync(stagingDir, targetDir);
+      } catch (error) {
+        if (replacing) renameSync(previousDir, targetDir);
+        throw error;
+      }
+
+      detach();
+      if (replacing) {
+        rmSync(previousDir, { recursive: true, force: true });
+      }
+    },
+
+    rollback() {
+      detach();
+      removeStaging();
+    },
+  };
+}
@@ -0,0 +1,17 @@
+import { describe, expect, it } from 'vitest';
+import { findClosest, levenshtein } from './suggest.js';
+
+describe('levenshtein', () => {
+  it('counts single-character edits', () => {
+    expect(levenshtein('kitten', 'sitting')).toBe(3);
+    expect(levenshtein('', 'abc')).toBe(3);
+    expect(levenshtein('same', 'same')).toBe(0);
+  });
+});
+
+describe('findClosest', () => {
+  it('suggests plausible typos only', () => {
+    expect(findClosest('buton', ['button', 'badge'])).toBe('button');
+    expect(findClosest('carousel', ['button', 'badge'])).toBeUndefined();
+  });
+});
@@ -0,0 +1,62 @@
+import { existsSync, mkdirSync, copyFileSync, readFileSync, rmSync } from 'node:fs';
+import { join, dirname } from 'node:path';
+
+// Pristine copies of framework files as they were last written by the CLI.
+// Used as the common ancestor when merging template updates into user edits.
+export const TEMPLATE_BASE_DIR = '.velocity/base';
+
+/**
+ * Returns the directory holding the pristine template snapshot for a project.
+ */
+export function getTemplateBaseDir(projectDir: string): string {
+  return join(projectDir, TEMPLATE_BASE_DIR);
+}
+
+/**
+ * Checks if a project has a recorded template snapshot.
+ */
+export function hasTemplateBase(projectDir: string): boolean {
+  return existsSync(getTemplateBaseDir(projectDir));
+}
+
+/**
+ * Records pristine template files from sourceDir into the project's snapshot.
+ */
+export function writeTemplateBase(projectDir: string, sourceDir: string, files: string[]): void {
+  const baseDir = getTemplateBaseDir(projectDir);
+
+  for (const file of files) {
+    const src = join(sourceDir, file);
+    if (!existsSync(src)) continue;
+
+    const dest = join(baseDir, file);
+    const destDir = dirname(dest);
+    if (!existsSync(destDir)) {
+      mkdirSync(destDir, { recursive: true });
+    }
+    copyFileSync(src, dest);
+  }
+}
+
+/**
+ * Reads the pristine template content for a file.
+ * Returns null if no snapshot was recorded for it.
+ */
+export function readTemplateBase(projectDir: string, filePath: string): Buffer | null {
+  const basePath = join(getTemplateBaseDir(projectDir), filePath);
+  if (!existsSync(basePath)) {
+    return null;
+  }
+  return readFileSync(basePath);
+}
+
+/**
+ * Drops files from the snapshot (e.g. ones the template no longer ships).
+ */
+export function removeTemplateBase(projectDir: string, files: string[]): void {
+  const baseDir = getTemplateBaseDir(projectDir);
+
+  for (const file of files) {
+    rmSync(join(baseDir, file), { force: true });
+  }
+}
@@ -0,0 +1,208 @@
+import { existsSync, mkdirSync, readdirSync, rmSync, cpSync, statSync } from 'node:fs';
+import { join } from 'node:path';
+import { homedir } from 'node:os';
+import type { CachedTemplate } from '../types.js';
+import type { ComponentRegistry } from '../registry/types.js';
+import type { TemplateSource } from './template-source.js';
+import { downloadFromSource } from './template-source.js';
+import { readManifest } from './manifest.js';
+import { readJson, writeJson } from './fs.js';
+import { compareVersions, isVersionTag } from './semver.js';
+
+const CACHE_NAME = 'create-velocity-astro';
+const TEMPLATES_DIR = 'templates';
+const CACHE_INFO_FILENAME = 'cache.json';
+const REGISTRY_FILENAME = 'component-registry.json';
+
+// Set by --offline: templates and the registry come only from the cache
+let offline = false;
+
+/**
+ * Enables offline mode for the rest of the process.
+ */
+export function setOfflineMode(enabled: boolean): void {
+  offline = enabled;
+}
+
+/**
+ * Checks if --offline is in effect.
+ */
+export function isOfflineMode(): boolean {
+  return offline;
+}
+
+/**
+ * Returns the cache root, honouring XDG_CACHE_HOME.
+ */
+export function getCacheDir(): string {
+  const base = process.env.XDG_CACHE_HOME || join(homedir(), '.cache');
+  return join(base, CACHE_NAME);
+}
+
+/**
+ * Returns the directory holding every cached version of a source.
+ */
+function getSourceCacheDir(source: TemplateSource): string {
+  const key = source.input.replace(/[^a-zA-Z0-9._-]+/g, '_');
+  return join(getCacheDir(), TEMPLATES_DIR, key);
+}
+
+/**
+ * Reads the version a downloaded template declares (manifest, then package.json).
+ */
+function readTemplateVersion(templateDir: string): string {
+  const manifest = readManifest(templateDir);
+  if (manifest?.version) return manifest.version;
+
+  const pkgPath = join(templateDir, 'package.json');
+  if (existsSync(pkgPath)) {
+    const pkg = readJson<{ version?: string }>(pkgPath);
+    if (pkg.version) return pkg.version;
+  }
+  return '0.0.0';
+}
+
+/**
+ * Lists cached templates, newest version first within each source.
+ * Pass a source to only list its versions.
+ */
+export function listCachedTemplates(source?: TemplateSource): CachedTemplate[] {
+  const root = join(getCacheDir(), TEMPLATES_DIR);
+  const sourceDirs = source
+    ? [getSourceCacheDir(source)]
+    : existsSync(root) ? readdirSync(root).map((name) => join(root, name)) : [];
+
+  const entries: CachedTemplate[] = [];
+  for (const sourceDir of sourceDirs) {
+    if (!existsSync(sourceDir)) continue;
+
+    for (const version of readdirSync(sourceDir)) {
+      const infoPath = join(sourceDir, version, CACHE_INFO_FILENAME);
+      if (!existsSync(infoPath)) continue;
+      try {
+        const info = readJson<Omit<CachedTemplate, 'dir'>>(infoPath);
+        entries.push({ ...info, dir: join(sourceDir, version, 'template') });
+      } catch {
+        // Ignore unreadable entries
+      }
+    }
+  }
+
+  return entries.sort((a, b) =>
+    a.source === b.source ? compareVersions(b.version, a.version) : a.source.localeCompare(b.source)
+  );
+}
+
+/**
+ * Finds a cached copy of a source. A version ref (`v1.8.0`, `1.8.0`) or the
+ * exact ref it was downloaded with selects that entry; otherwise the newest.
+ */
+export function findCachedTemplate(source: TemplateSource, ref?: string): CachedTemplate | null {
+  const entries = listCachedTemplates(source);
+  if (!ref) return entries[0] ?? null;
+
+  const version = isVersionTag(ref) ? ref.replace(/^v/, '') : null;
+  return entries.find((e) => e.ref === ref || e.version === version) ?? null;
+}
+
+/**
+ * Copies a freshly downloaded template into the cache, replacing any
+ * earlier copy of the same version.
+ */
+export function cacheTemplate(source: TemplateSource, templateDir: string, ref?: string): CachedTemplate {
+  const version = readTemplateVersion(templateDir);
+  const entryDir = join(getSourceCacheDir(source), version);
+
+  rmSync(entryDir, { recursive: true, force: true });
+  mkdirSync(entryDir, { recursive: true });
+  cpSync(templateDir, join(entryDir, 'template'), { recursive: true });
+
+  const info: Omit<CachedTemplate, 'dir'> = {
+    source: source.input,
+    version,
+    ...(ref ? { ref } : {}),
+    cachedAt: new Date().toISOString(),
+  };
+  writeJson(join(entryDir, CACHE_INFO_FILENAME), info);
+
+  return { ...info, dir: join(entryDir, 'template') };
+}
+
+/**
+ * Downloads a template into `dir` and caches it. In offline mode the newest
+ * (or requested) cached copy is used instead; throws if there is none.
+ * Local directories are always read directly and never cached.
+ */
+export async function fetchTemplate(
+  source: TemplateSource,
+  dir: string,
+  ref?: string
+): Promise<void> {
+  if (source.provider === 'local') {
+    await downloadFromSource(source, dir, ref);
+    return;
+  }
+
+  if (offline) {
+    const cached = findCachedTemplate(source, ref);
+    if (!cached) {
+      throw new Error(
+        `No cached template for ${source.input}${ref ? ` (${ref})` : ''}.\n` +
+        'Run `pnpm create velocity-astro cache prefetch` while online first.'
+      );
+    }
+    cpSync(cached.dir, dir, { recursive: true, force: true });
+    return;
+  }
+
+  await downloadFromSource(source, dir, ref);
+
+  try {
+    cacheTemplate(source, dir, ref);
+  } catch {
+    // Caching is best effort — the download itself succeeded
+  }
+}
+
+/**
+ * Reads the component registry from the newest cached copy of a source.
+ */
+export function readCachedRegistry(source: TemplateSource): ComponentRegistry | null {
+  const cached = findCachedTemplate(source);
+  const registryPath = cached && join(cached.dir, REGISTRY_FILENAME);
+  if (!registryPath || !existsSync(registryPath)) return null;
+
+  try {
+    return readJson<ComponentRegistry>(registryPath);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Removes cached templates (only the given source's, if passed).
+ * Returns the number of versions removed.
+ */
+export function clearCache(source?: TemplateSource): number {
+  const count = listCachedTemplates(source).length;
+  const target = source ? getSourceCacheDir(source) : join(getCacheDir(), TEMPLATES_DIR);
+  rmSync(target, { recursive: true, force: true });
+  return count;
+}
+
+/**
+ * Total size in bytes of a cached template's files.
+ */
+export function getCachedTemplateSize(entry: CachedTemplate): number {
+  const sizeOf = (path: string): number => {
+    const stat = statSync(path);
+    if (!stat.isDirectory()) return stat.size;
+    return readdirSync(path).reduce((total, name) => total + sizeOf(join(path, name)), 0);
+  };
+
+  try {
+    return sizeOf(entry.dir);
+  } catch {
+    return 0;
+  }
+}
@@ -0,0 +1,81 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { mkdirSync, mkdtempSync, rmSync } from 'node:fs';
+import { homedir, tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { normalizeTemplateSource, parseTemplateSource, supportsRefs } from './template-source.js';
+
+describe('parseTemplateSource', () => {
+  let cwd: string;
+
+  beforeEach(() => {
+    cwd = mkdtempSync(join(tmpdir(), 'velocity-source-'));
+    mkdirSync(join(cwd, 'my-template'));
+  });
+
+  afterEach(() => {
+    rmSync(cwd, { recursive: true, force: true });
+  });
+
+  it('reads gh:owner/repo#ref', () => {
+    expect(parseTemplateSource('gh:acme/starter#v2.0.0', cwd)).toEqual({
+      input: 'gh:acme/starter#v2.0.0',
+      provider: 'github',
+      repo: 'acme/starter',
+      ref: 'v2.0.0',
+    });
+  });
+
+  it('treats extra path segments as a subdirectory', () => {
+    expect(parseTemplateSource('gitlab:acme/monorepo/templates/astro#main', cwd)).toEqual({
+      input: 'gitlab:acme/monorepo/templates/astro#main',
+      provider: 'gitlab',
+      repo: 'acme/monorepo',
+      subdir: 'templates/astro',
+      ref: 'main',
+    });
+  });
+
+  it('defaults owner/repo shorthand to GitHub', () => {
+    expect(parseTemplateSource('acme/starter', cwd)).toMatchObject({ provider: 'github', repo: 'acme/starter' });
+  });
+
+  it('keeps tarball URLs as they are', () => {
+    const source = parseTemplateSource('https://example.com/template.tar.gz', cwd);
+
+    expect(source).toEqual({
+      input: 'https://example.com/template.tar.gz',
+      provider: 'url',
+      location: 'https://example.com/template.tar.gz',
+    });
+    expect(supportsRefs(source)).toBe(false);
+  });
+
+  it('resolves relative, existing, absolute, home and file: paths against cwd', () => {
+    const location = (input: string) => parseTemplateSource(input, cwd).location;
+
+    expect(location('./my-template')).toBe(join(cwd, 'my-template'));
+    expect(location('../shared')).toBe(join(cwd, '..', 'shared'));
+    expect(location('my-template')).toBe(join(cwd, 'my-template'));
+    expect(location('/srv/templates/astro')).toBe('/srv/templates/astro');
+    expect(location('~/templates/astro')).toBe(join(homedir(), 'templates/astro'));
+    expect(location('file:./my-template')).toBe(join(cwd, 'my-template'));
+    expect(parseTemplateSource('./my-template', cwd).provider).toBe('local');
+  });
+
+  it('rejects unknown providers and sources without a repo', () => {
+    expect(() => parseTemplateSource('svn:acme/starter', cwd)).toThrowError(
+      'Unsupported template source: svn:acme/starter'
+    );
+    expect(() => parseTemplateSource('gh:acme', cwd)).toThrowError(
+      'Invalid template source: gh:acme. Expected github:owner/repo'
+    );
+    expect(() => parseTemplateSource('missing-dir', cwd)).toThrowError('Invalid template source: missing-dir');
+  });
+});
+
+describe('normalizeTemplateSource', () => {
+  it('stores local paths as absolute and git sources as given', () => {
+    expect(normalizeTemplateSource('./templates/astro', '/work')).toBe('/work/templates/astro');
+    expect(normalizeTemplateSource('gh:acme/starter#main', '/work')).toBe('gh:acme/starter#main');
+  });
+});
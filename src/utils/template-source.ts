@@ -0,0 +1,209 @@
+import { existsSync, readFileSync, cpSync } from 'node:fs';
+import { join, resolve, basename } from 'node:path';
+import { homedir } from 'node:os';
+import { downloadTemplate } from 'giget';
+
+// The official Velocity template
+export const DEFAULT_TEMPLATE_SOURCE = 'github:southwellmedia/velocity';
+
+export type TemplateProvider = 'github' | 'gitlab' | 'bitbucket' | 'sourcehut' | 'url' | 'local';
+
+/**
+ * Where templates, manifests and the component registry come from.
+ */
+export interface TemplateSource {
+  // As given on the command line and stored in .velocity.json
+  input: string;
+  provider: TemplateProvider;
+  // "owner/name" on git hosts
+  repo?: string;
+  // Subdirectory of the repo that holds the template
+  subdir?: string;
+  // Branch, tag or commit from "#ref"
+  ref?: string;
+  // Absolute directory (local) or tarball URL
+  location?: string;
+}
+
+const GIT_PROVIDERS: Record<string, TemplateProvider> = {
+  github: 'github',
+  gh: 'github',
+  gitlab: 'gitlab',
+  bitbucket: 'bitbucket',
+  sourcehut: 'sourcehut',
+};
+
+// Skipped when copying a local template directory
+const LOCAL_IGNORE = new Set(['node_modules', '.git']);
+
+/**
+ * Checks if a template source refers to a directory on disk: `file:` URLs,
+ * absolute, relative and home paths, or any existing path without a provider prefix.
+ */
+function isLocalPath(input: string, cwd: string): boolean {
+  if (input.startsWith('file:')) return true;
+  if (/^(~|\.{1,2})?([\\/]|$)/.test(input)) return true;
+  return !/^[a-z]+:/.test(input) && existsSync(resolve(cwd, input));
+}
+
+/**
+ * Parses a giget source (`github:org/repo/subdir#ref`, `gitlab:…`, a tarball URL,
+ * or `org/repo` shorthand for GitHub) or a local directory path.
+ */
+export function parseTemplateSource(input: string, cwd = process.cwd()): TemplateSource {
+  if (/^https?:\/\//.test(input)) {
+    return { input, provider: 'url', location: input };
+  }
+
+  if (isLocalPath(input, cwd)) {
+    const path = input.replace(/^file:/, '').replace(/^~(?=$|[\\/])/, homedir());
+    return { input, provider: 'local', location: resolve(cwd, path) };
+  }
+
+  const prefixed = /^([a-z]+):(.*)$/.exec(input);
+  const provider = prefixed ? GIT_PROVIDERS[prefixed[1]!] : 'github';
+  if (!provider) {
+    throw new Error(`Unsupported template source: ${input}`);
+  }
+
+  const [path = '', ref] = (prefixed ? prefixed[2]! : input).split('#');
+  const [owner, name, ...subdir] = path.split('/').filter(Boolean);
+  if (!owner || !name) {
+    throw new Error(`Invalid template source: ${input}. Expected ${provider}:owner/repo`);
+  }
+
+  return {
+    input,
+    provider,
+    repo: `${owner}/${name}`,
+    ...(subdir.length > 0 ? { subdir: subdir.join('/') } : {}),
+    ...(ref ? { ref } : {}),
+  };
+}
+
+/**
+ * Returns the official template source.
+ */
+export function getDefaultTemplateSource(): TemplateSource {
+  return parseTemplateSource(DEFAULT_TEMPLATE_SOURCE);
+}
+
+/**
+ * Short description of a source for progress messages.
+ */
+export function describeTemplateSource(source: TemplateSource): string {
+  if (source.provider === 'local') return basename(source.location!) || source.location!;
+  if (source.provider === 'url') return source.location!;
+  return `${source.repo}${source.ref ? `#${source.ref}` : ''}`;
+}
+
+/**
+ * Checks if a source can be pinned to another branch, tag or commit.
+ */
+export function supportsRefs(source: TemplateSource): boolean {
+  return source.provider !== 'local' && source.provider !== 'url';
+}
+
+/**
+ * Downloads (or copies, for local directories) a template into `dir`.
+ * `ref` overrides the source's own ref on git hosts.
+ */
+export async function downloadFromSource(
+  source: TemplateSource,
+  dir: string,
+  ref?: string
+): Promise<void> {
+  if (source.provider === 'local') {
+    if (!existsSync(source.location!)) {
+      throw new Error(`Template directory not found: ${source.location}`);
+    }
+    cpSync(source.location!, dir, {
+      recursive: true,
+      force: true,
+      filter: (src) => !LOCAL_IGNORE.has(basename(src)),
+    });
+    return;
+  }
+
+  if (source.provider === 'url') {
+    await downloadTemplate(source.location!, { dir, force: true });
+    return;
+  }
+
+  const subdir = source.subdir ? `/${source.subdir}` : '';
+  const pinned = ref ?? source.ref;
+  await downloadTemplate(`${source.provider}:${source.repo}${subdir}${pinned ? `#${pinned}` : ''}`, {
+    dir,
+    force: true,
+  });
+}
+
+/**
+ * Reads a single file from a template source without downloading all of it.
+ * Tarball sources can't serve single files and always throw.
+ */
+export async function fetchTemplateFile(
+  source: TemplateSource,
+  filePath: string,
+  ref?: string
+): Promise<string> {
+  if (source.provider === 'local') {
+    return readFileSync(join(source.location!, filePath), 'utf-8');
+  }
+
+  if (source.provider === 'url') {
+    throw new Error('Tarball template sources do not support fetching single files');
+  }
+
+  const pinned = ref ?? source.ref ?? 'HEAD';
+  const path = source.subdir ? `${source.subdir}/${filePath}` : filePath;
+  const urls: Record<string, string> = {
+    github: `https://raw.githubusercontent.com/${source.repo}/${pinned}/${path}`,
+    gitlab: `https://gitlab.com/${source.repo}/-/raw/${pinned}/${path}`,
+    bitbucket: `https://bitbucket.org/${source.repo}/raw/${pinned}/${path}`,
+    sourcehut: `https://git.sr.ht/${source.repo}/blob/${pinned}/${path}`,
+  };
+
+  const response = await fetch(urls[source.provider]!);
+  if (!response.ok) {
+    throw new Error(`Failed to fetch ${filePath}: ${response.status} ${response.statusText}`);
+  }
+  return response.text();
+}
+
+/**
+ * Lists git tag names for a source. Sources without tags (local directories,
+ * tarballs, hosts without a tags API) return an empty list.
+ */
+export async function listTemplateTags(source: TemplateSource): Promise<string[]> {
+  let url: string;
+  switch (source.provider) {
+    case 'github':
+      url = `https://api.github.com/repos/${source.repo}/tags?per_page=100`;
+      break;
+    case 'gitlab':
+      url = `https://gitlab.com/api/v4/projects/${encodeURIComponent(source.repo!)}/repository/tags?per_page=100`;
+      break;
+    default:
+      return [];
+  }
+
+  const response = await fetch(url, {
+    headers: source.provider === 'github' ? { Accept: 'application/vnd.github+json' } : {},
+  });
+  if (!response.ok) {
+    throw new Error(`Failed to list tags: ${response.status} ${response.statusText}`);
+  }
+
+  const tags = await response.json() as { name: string }[];
+  return tags.map((t) => t.name);
+}
+
+/**
+ * Returns the form of a source to store in .velocity.json: local paths become
+ * absolute so upgrades run from the project directory still find them.
+ */
+export function normalizeTemplateSource(input: string, cwd = process.cwd()): string {
+  const source = parseTemplateSource(input, cwd);
+  return source.provider === 'local' ? source.location! : source.input;
+}
@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { createHunks } from './unified-diff.js';
+
+const lines = (count: number) => Array.from({ length: count }, (_, i) => `line ${i + 1}\n`).join('');
+
+describe('createHunks', () => {
+  it('returns no hunks for identical text', () => {
+    expect(createHunks('a\nb\n', 'a\nb\n')).toEqual([]);
+  });
+
+  it('surrounds a change with context lines', () => {
+    const before = lines(10);
+    const after = before.replace('line 5\n', 'line five\n');
+
+    expect(createHunks(before, after)).toEqual([
+      {
+        header: '@@ -2,7 +2,7 @@',
+        lines: [
+          { type: 'context', text: 'line 2\n' },
+          { type: 'context', text: 'line 3\n' },
+          { type: 'context', text: 'line 4\n' },
+          { type: 'remove', text: 'line 5\n' },
+          { type: 'add', text: 'line five\n' },
+          { type: 'context', text: 'line 6\n' },
+          { type: 'context', text: 'line 7\n' },
+          { type: 'context', text: 'line 8\n' },
+        ],
+      },
+    ]);
+  });
+
+  it('joins nearby changes and splits distant ones', () => {
+    const before = lines(30);
+    const near = before.replace('line 5\n', 'x\n').replace('line 10\n', 'y\n');
+    const far = before.replace('line 5\n', 'x\n').replace('line 25\n', 'y\n');
+
+    expect(createHunks(before, near).map((h) => h.header)).toEqual(['@@ -2,12 +2,12 @@']);
+    expect(createHunks(before, far).map((h) => h.header)).toEqual(['@@ -2,7 +2,7 @@', '@@ -22,7 +22,7 @@']);
+  });
+
+  it('numbers hunks for new and emptied files from zero', () => {
+    expect(createHunks('', 'a\n')[0]!.header).toBe('@@ -0,0 +1,1 @@');
+    expect(createHunks('a\n', '')[0]!.header).toBe('@@ -1,1 +0,0 @@');
+  });
+
+  it('honours the context size', () => {
+    const before = lines(10);
+    const after = before.replace('line 5\n', 'x\n');
+
+    expect(createHunks(before, after, 0)[0]!.lines.map((l) => l.type)).toEqual(['remove', 'add']);
+  });
+});
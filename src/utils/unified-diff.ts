@@ -0,0 +1,93 @@
+import { splitLines, matchLines } from './merge.js';
+
+export type DiffLineType = 'context' | 'add' | 'remove';
+
+export interface DiffLine {
+  type: DiffLineType;
+  text: string;
+}
+
+export interface DiffHunk {
+  header: string;
+  lines: DiffLine[];
+}
+
+/**
+ * Turns two texts into a flat line-by-line edit script.
+ */
+function editScript(before: string, after: string): DiffLine[] {
+  const a = splitLines(before);
+  const b = splitLines(after);
+  const pairs = matchLines(a, b);
+  const lines: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+
+  for (const [ai, bi] of [...pairs, [a.length, b.length] as [number, number]]) {
+    while (i < ai) lines.push({ type: 'remove', text: a[i++]! });
+    while (j < bi) lines.push({ type: 'add', text: b[j++]! });
+    if (ai < a.length) {
+      lines.push({ type: 'context', text: a[i]! });
+      i++;
+      j++;
+    }
+  }
+
+  return lines;
+}
+
+/**
+ * Builds unified-diff hunks between two texts with the given lines of context.
+ * Returns an empty array when the texts are identical.
+ */
+export function createHunks(before: string, after: string, context = 3): DiffHunk[] {
+  const script = editScript(before, after);
+  const hunks: DiffHunk[] = [];
+
+  // Line numbers (1-based) at each script position
+  let oldLine = 1;
+  let newLine = 1;
+  const positions = script.map((line) => {
+    const pos = { oldLine, newLine };
+    if (line.type !== 'add') oldLine++;
+    if (line.type !== 'remove') newLine++;
+    return pos;
+  });
+
+  let index = 0;
+  while (index < script.length) {
+    // Find next change
+    while (index < script.length && script[index]!.type === 'context') index++;
+    if (index >= script.length) break;
+
+    const start = Math.max(0, index - context);
+    let end = index;
+
+    // Extend while changes are within 2 * context lines of each other
+    while (end < script.length) {
+      if (script[end]!.type !== 'context') {
+        end++;
+        continue;
+      }
+      let next = end;
+      while (next < script.length && script[next]!.type === 'context') next++;
+      if (next >= script.length || next - end > context * 2) break;
+      end = next;
+    }
+
+    const stop = Math.min(script.length, end + context);
+    const lines = script.slice(start, stop);
+    const first = positions[start]!;
+    const oldCount = lines.filter((l) => l.type !== 'add').length;
+    const newCount = lines.filter((l) => l.type !== 'remove').length;
+
+    hunks.push({
+      header: `@@ -${oldCount === 0 ? first.oldLine - 1 : first.oldLine},${oldCount} +${newCount === 0 ? first.newLine - 1 : first.newLine},${newCount} @@`,
+      lines,
+    });
+
+    index = stop;
+  }
+
+  return hunks;
+}
@@ -50,3 +50,21 @@ export function toValidProjectName(name: string): string {
     .replace(/[-._]+$/, '')
     .replace(/-+/g, '-');
 }
+
+// Routes the template already provides
+export const RESERVED_PAGE_NAMES = ['index', 'blog', '404', 'rss'];
+
+/**
+ * Validates a starter page slug (lowercase letters, numbers and hyphens)
+ */
+export function validatePageName(name: string): { valid: boolean; message?: string } {
+  if (!/^[a-z0-9]+(-[a-z0-9]+)*$/.test(name)) {
+    return { valid: false, message: `"${name}" must contain only lowercase letters, numbers and hyphens` };
+  }
+
+  if (RESERVED_PAGE_NAMES.includes(name)) {
+    return { valid: false, message: `"${name}" is reserved by the template` };
+  }
+
+  return { valid: true };
+}
@@ -0,0 +1,25 @@
+import { describe, expect, it } from 'vitest';
+import type { ComponentSelection } from '../registry/types.js';
+import { formatComponentsConfig, parseComponentsConfig } from './velocity-config.js';
+
+describe('formatComponentsConfig / parseComponentsConfig', () => {
+  const selections: [ComponentSelection, string][] = [
+    [{ mode: 'all' }, 'all'],
+    [{ mode: 'none' }, 'none'],
+    [{ mode: 'categories', categories: ['ui', 'patterns'] }, 'categories:ui,patterns'],
+    [{ mode: 'individual', components: ['button', 'card'] }, 'individual:button,card'],
+    [
+      { mode: 'categories', categories: ['ui/form'], components: ['dialog'] },
+      'categories:ui/form;individual:dialog',
+    ],
+  ];
+
+  it.each(selections)('round-trips %j', (selection, value) => {
+    expect(formatComponentsConfig(selection)).toBe(value);
+    expect(parseComponentsConfig(value)).toEqual(selection);
+  });
+
+  it('falls back to all for unknown values', () => {
+    expect(parseComponentsConfig('everything')).toEqual({ mode: 'all' });
+  });
+});
@@ -1,6 +1,7 @@
 import { existsSync } from 'node:fs';
 import { join } from 'node:path';
 import type { VelocityConfig, ScaffoldOptions } from '../types.js';
+import type { ComponentSelection } from '../registry/types.js';
 import { readJson, writeJson } from './fs.js';
 
 const CONFIG_FILENAME = '.velocity.json';
@@ -26,26 +27,31 @@ export function writeVelocityConfig(projectDir: string, config: VelocityConfig):
 }
 
 /**
- * Builds a VelocityConfig from scaffold options for initial project creation.
+ * Serializes a component selection for the "components" field of .velocity.json.
  */
-export function createInitialConfig(options: ScaffoldOptions, version: string): VelocityConfig {
-  const today = new Date().toISOString().slice(0, 10);
-
-  let componentsValue: string;
-  switch (options.componentSelection.mode) {
+export function formatComponentsConfig(selection: ComponentSelection): string {
+  switch (selection.mode) {
     case 'all':
-      componentsValue = 'all';
-      break;
+      return 'all';
     case 'none':
-      componentsValue = 'none';
-      break;
-    case 'categories':
-      componentsValue = `categories:${options.componentSelection.categories?.join(',') ?? ''}`;
-      break;
+      return 'none';
+    case 'categories': {
+      const value = `categories:${selection.categories?.join(',') ?? ''}`;
+      // Components picked alongside categories follow as an individual: part
+      return selection.components?.length
+        ? `${value};individual:${selection.components.join(',')}`
+        : value;
+    }
     case 'individual':
-      componentsValue = `individual:${options.componentSelection.components?.join(',') ?? ''}`;
-      break;
+      return `individual:${selection.components?.join(',') ?? ''}`;
   }
+}
+
+/**
+ * Builds a VelocityConfig from scaffold options for initial project creation.
+ */
+export function createInitialConfig(options: ScaffoldOptions, version: string): VelocityConfig {
+  const today = new Date().toISOString().slice(0, 10);
 
   return {
     version,
@@ -54,7 +60,37 @@ export function createInitialConfig(options: ScaffoldOptions, version: string):
     features: {
       demo: options.demo,
       i18n: options.i18n,
-      components: componentsValue,
+      components: formatComponentsConfig(options.componentSelection),
+      ...(options.deploy !== 'static' ? { deploy: options.deploy } : {}),
     },
+    ...(options.template ? { template: options.template } : {}),
   };
 }
+
+/**
+ * Parses the stored `features.components` value back into a ComponentSelection.
+ * Inverse of the encoding used by createInitialConfig.
+ */
+export function parseComponentsConfig(value: string): ComponentSelection {
+  const parts = new Map<string, string[]>();
+  for (const part of value.split(';')) {
+    const [mode = '', list = ''] = part.split(':', 2);
+    parts.set(mode.trim(), list.split(',').map((s) => s.trim()).filter(Boolean));
+  }
+
+  if (parts.has('categories')) {
+    const components = parts.get('individual');
+    return {
+      mode: 'categories',
+      categories: parts.get('categories'),
+      ...(components?.length ? { components } : {}),
+    };
+  }
+  if (parts.has('individual')) {
+    return { mode: 'individual', components: parts.get('individual') };
+  }
+  if (parts.has('none')) {
+    return { mode: 'none' };
+  }
+  return { mode: 'all' };
+}
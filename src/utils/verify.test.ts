@@ -0,0 +1,47 @@
+import { describe, expect, it, vi } from 'vitest';
+import { execa } from 'execa';
+import { getVerificationSteps, verifyProject } from './verify.js';
+
+vi.mock('execa', () => ({ execa: vi.fn(async () => ({ all: '' })) }));
+
+describe('getVerificationSteps', () => {
+  it('lets pnpm update the lockfile after package.json changes', () => {
+    const [install] = getVerificationSteps('pnpm');
+
+    expect(install!.command).toBe('pnpm install --no-frozen-lockfile');
+    expect(install!.env).not.toHaveProperty('CI');
+  });
+
+  it('turns off immutable installs for Yarn 2+', () => {
+    const [install] = getVerificationSteps('yarn');
+
+    expect(install!.command).toBe('yarn');
+    expect(install!.env).toEqual({ YARN_ENABLE_IMMUTABLE_INSTALLS: 'false' });
+  });
+
+  it('runs check and build under CI', () => {
+    const [, check, build] = getVerificationSteps('npm');
+
+    expect(check).toEqual({ name: 'Type check', command: 'npx astro check', env: { CI: 'true' } });
+    expect(build).toEqual({ name: 'Build', command: 'npx astro build', env: { CI: 'true' } });
+  });
+});
+
+describe('verifyProject', () => {
+  it('runs the install with its own environment and reports steps without it', async () => {
+    const result = await verifyProject('/project', 'pnpm');
+
+    expect(vi.mocked(execa)).toHaveBeenNthCalledWith(
+      1,
+      'pnpm',
+      ['install', '--no-frozen-lockfile'],
+      { cwd: '/project', all: true, env: { YARN_ENABLE_IMMUTABLE_INSTALLS: 'false' } }
+    );
+    expect(result.passed).toBe(true);
+    expect(result.steps[0]).toEqual({
+      name: 'Install dependencies',
+      command: 'pnpm install --no-frozen-lockfile',
+      passed: true,
+    });
+  });
+});
@@ -0,0 +1,78 @@
+import { execa } from 'execa';
+import type { PackageManager, VerificationResult, VerificationStep } from '../types.js';
+import { getInstallCommand, getExecCommand } from './package-manager.js';
+
+export interface PlannedVerificationStep extends Omit<VerificationStep, 'passed'> {
+  env: Record<string, string>;
+}
+
+// Check and build run non-interactively
+const CI_ENV = { CI: 'true' };
+
+// The upgrade has just edited package.json, so the install must be allowed to
+// update the lockfile. Under CI, pnpm and Yarn 2+ would refuse with a frozen
+// lockfile; yarn 1 ignores the Yarn 2+ setting.
+const INSTALL_ENV = { YARN_ENABLE_IMMUTABLE_INSTALLS: 'false' };
+
+/**
+ * Gets the install command for verification, allowing lockfile updates
+ */
+function getVerifyInstallCommand(pm: PackageManager): string {
+  const install = getInstallCommand(pm);
+  return pm === 'pnpm' ? `${install} --no-frozen-lockfile` : install;
+}
+
+/**
+ * Lists the commands `upgrade --verify` runs, in order, with the
+ * environment each one runs under.
+ */
+export function getVerificationSteps(pm: PackageManager): PlannedVerificationStep[] {
+  const exec = getExecCommand(pm);
+  return [
+    { name: 'Install dependencies', command: getVerifyInstallCommand(pm), env: INSTALL_ENV },
+    { name: 'Type check', command: `${exec} astro check`, env: CI_ENV },
+    { name: 'Build', command: `${exec} astro build`, env: CI_ENV },
+  ];
+}
+
+/**
+ * Picks the output to show for a failed step. A command that never started
+ * (e.g. the package manager isn't installed) has no output of its own.
+ */
+function describeFailure(error: unknown, cmd: string): string {
+  const { all, code } = error as { all?: string; code?: string };
+  if (code === 'ENOENT') {
+    return `Could not run "${cmd}": package manager binary not found. Install ${cmd} or check your PATH.`;
+  }
+  if (all?.trim()) {
+    return all;
+  }
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Installs dependencies, type-checks and builds the project, stopping at
+ * the first failing step. `onStep` is called before each step runs.
+ */
+export async function verifyProject(
+  projectDir: string,
+  pm: PackageManager,
+  onStep?: (name: string) => void
+): Promise<Omit<VerificationResult, 'rolledBack'>> {
+  const steps: VerificationStep[] = [];
+
+  for (const { env, ...step } of getVerificationSteps(pm)) {
+    onStep?.(step.name);
+    const [cmd, ...args] = step.command.split(' ');
+
+    try {
+      await execa(cmd!, args, { cwd: projectDir, all: true, env });
+      steps.push({ ...step, passed: true });
+    } catch (error) {
+      steps.push({ ...step, passed: false });
+      return { passed: false, steps, output: describeFailure(error, cmd!) };
+    }
+  }
+
+  return { passed: true, steps };
+}
@@ -0,0 +1,13 @@
+import { readFileSync } from 'node:fs';
+import { resolve, dirname } from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+
+/**
+ * The CLI's version, read from its package.json (one level up from both src/
+ * and dist/) so `--version` and upgrade compatibility checks always agree
+ */
+export const CLI_VERSION = (
+  JSON.parse(readFileSync(resolve(__dirname, '..', 'package.json'), 'utf-8')) as { version: string }
+).version;